@@ -5,6 +5,15 @@ import * as vscode from 'vscode';
 import LivecodescriptValidationProvider from "./features/livecodescript/LCSvalidationProvider";
 import { LivecodescriptFormattingProvider } from "./features/livecodescript/LCSformat";
 import { LivecodescriptDefinitionProvider } from "./features/livecodescript/LCSdefinitionProvider";
+import { LivecodescriptReferenceProvider } from "./features/livecodescript/LCSreferenceProvider";
+import { LivecodescriptRenameProvider } from "./features/livecodescript/LCSrenameProvider";
+import { LivecodescriptHoverProvider } from "./features/livecodescript/LCShoverProvider";
+import { LivecodescriptCompletionProvider } from "./features/livecodescript/LCScompletionProvider";
+import { LivecodescriptSignatureHelpProvider } from "./features/livecodescript/LCSsignatureHelpProvider";
+import { LivecodescriptFoldingRangeProvider } from "./features/livecodescript/LCSfoldingProvider";
+import { LivecodescriptOnTypeFormattingProvider } from "./features/livecodescript/LCSonTypeFormattingProvider";
+import { LivecodescriptCodeActionProvider } from "./features/livecodescript/LCScodeActionProvider";
+import { LivecodescriptSemanticTokensLegend, LivecodescriptSemanticTokensProvider } from "./features/livecodescript/LCSsemanticTokensProvider";
 import { livecodescriptConfigDocumentSymbolProvider } from "./features/livecodescript/LCSsymbolProvider";
 import LivecodescriptServerProvider from "./features/livecodescript/LCSserverProvider";
 import { LiveCodeStackEditorProvider } from "./features/livecodescript/LCSeditor";
@@ -13,38 +22,99 @@ import LivecodescriptSender from "./features/livecodescript/LCSsendToLiveCode";
 import LivecodebuilderValidationProvider from "./features/livecodebuilder/LCBvalidationProvider";
 import { LivecodebuilderFormattingProvider } from "./features/livecodebuilder/LCBformat";
 import { LivecodebuilderDefinitionProvider } from "./features/livecodebuilder/LCBdefinitionProvider";
+import { LivecodebuilderRenameProvider } from "./features/livecodebuilder/LCBrenameProvider";
+import { LivecodebuilderFoldingRangeProvider } from "./features/livecodebuilder/LCBfoldingProvider";
+import { LivecodebuilderOnTypeFormattingProvider } from "./features/livecodebuilder/LCBonTypeFormattingProvider";
+import { LivecodebuilderCompletionProvider } from "./features/livecodebuilder/LCBcompletionProvider";
+import { LivecodebuilderHoverProvider } from "./features/livecodebuilder/LCBhoverProvider";
+import LivecodebuilderInterfaces from "./features/livecodebuilder/LCBinterfaces";
+import LivecodebuilderCompiler from "./features/livecodebuilder/LCBcompiler";
+import LivecodebuilderInterfaceCache from "./features/livecodebuilder/LCBinterfaceCache";
 import { livecodebuilderConfigDocumentSymbolProvider } from "./features/livecodebuilder/LCBsymbolProvider";
 
+import LivecodeWorkspaceIndex from "./features/workspace/workspaceIndex";
+import { LivecodeWorkspaceSymbolProvider } from "./features/workspace/workspaceSymbolProvider";
+import LivecodeWorkspaceLinter from "./features/workspace/workspaceLinter";
+import LivecodeWorker from "./features/utils/livecodeWorker";
+import { OnTypeTriggerCharacters } from "./features/utils/onTypeFormatting";
+
 export function activate(context: vscode.ExtensionContext) {
     
-    let validator = new LivecodescriptValidationProvider();
-    let LCBuilderValidator = new LivecodebuilderValidationProvider();
+    let index = new LivecodeWorkspaceIndex();
+    let interfaceCache = new LivecodebuilderInterfaceCache(index, context.storageUri ?? context.globalStorageUri);
+    let interfaces = new LivecodebuilderInterfaces(interfaceCache);
+    let workspaceSymbolProvider = new LivecodeWorkspaceSymbolProvider(index);
+    let lintWorker = new LivecodeWorker("Linter.lc");
+    let formatWorker = new LivecodeWorker("Formatter.lc");
+
+    let validator = new LivecodescriptValidationProvider(lintWorker);
+    let LCBuilderValidator = new LivecodebuilderValidationProvider(lintWorker, interfaceCache);
+    let LCBuilderCompiler = new LivecodebuilderCompiler(interfaceCache);
+    let workspaceLinter = new LivecodeWorkspaceLinter(validator, LCBuilderValidator);
 
     let sender = new LivecodescriptSender();
     let server = new LivecodescriptServerProvider(sender);
 
-    let formatProvider = new LivecodescriptFormattingProvider();
-    let definitionProvider = new LivecodescriptDefinitionProvider();
+    let formatProvider = new LivecodescriptFormattingProvider(formatWorker);
+    let definitionProvider = new LivecodescriptDefinitionProvider(index);
+    let referenceProvider = new LivecodescriptReferenceProvider(index);
+    let renameProvider = new LivecodescriptRenameProvider(index);
+    let hoverProvider = new LivecodescriptHoverProvider(index);
+    let completionProvider = new LivecodescriptCompletionProvider(index);
+    let signatureHelpProvider = new LivecodescriptSignatureHelpProvider(index);
+    let foldingProvider = new LivecodescriptFoldingRangeProvider();
+    let onTypeFormattingProvider = new LivecodescriptOnTypeFormattingProvider();
+    let semanticTokensProvider = new LivecodescriptSemanticTokensProvider(index);
+    let codeActionProvider = new LivecodescriptCodeActionProvider();
     let symbolProvider = new livecodescriptConfigDocumentSymbolProvider();
 
     
     let LCBuilderFormatProvider = new LivecodebuilderFormattingProvider();
-    let LCBuilderDefinitionProvider = new LivecodebuilderDefinitionProvider();
+    let LCBuilderDefinitionProvider = new LivecodebuilderDefinitionProvider(index, interfaces);
+    let LCBuilderRenameProvider = new LivecodebuilderRenameProvider(index);
+    let LCBuilderFoldingProvider = new LivecodebuilderFoldingRangeProvider();
+    let LCBuilderOnTypeFormattingProvider = new LivecodebuilderOnTypeFormattingProvider();
+    let LCBuilderCompletionProvider = new LivecodebuilderCompletionProvider(interfaces);
+    let LCBuilderHoverProvider = new LivecodebuilderHoverProvider(interfaces);
     let LCBsymbolProvider = new livecodebuilderConfigDocumentSymbolProvider();
 
+    context.subscriptions.push(lintWorker, formatWorker);
+    index.activate(context.subscriptions);
+    interfaces.activate(context.subscriptions);
+    interfaceCache.activate(context.subscriptions);
     LCBuilderValidator.activate(context.subscriptions);
+    LCBuilderCompiler.activate(context.subscriptions);
     validator.activate(context.subscriptions);
+    workspaceLinter.activate(context.subscriptions);
     server.activate(context.subscriptions);
     sender.activate(context.subscriptions);
 
 
     context.subscriptions.push(vscode.languages.registerDocumentSymbolProvider({ scheme: "file", language: "livecodescript" }, symbolProvider));
     context.subscriptions.push(vscode.languages.registerDefinitionProvider({ scheme: "file", language: "livecodescript" }, definitionProvider));
+    context.subscriptions.push(vscode.languages.registerReferenceProvider({ scheme: "file", language: "livecodescript" }, referenceProvider));
+    context.subscriptions.push(vscode.languages.registerRenameProvider({ scheme: "file", language: "livecodescript" }, renameProvider));
+    context.subscriptions.push(vscode.languages.registerHoverProvider({ scheme: "file", language: "livecodescript" }, hoverProvider));
+    context.subscriptions.push(vscode.languages.registerCompletionItemProvider({ scheme: "file", language: "livecodescript" }, completionProvider));
+    context.subscriptions.push(vscode.languages.registerSignatureHelpProvider({ scheme: "file", language: "livecodescript" }, signatureHelpProvider, { triggerCharacters: ["(", ","], retriggerCharacters: [" "] }));
+    context.subscriptions.push(vscode.languages.registerFoldingRangeProvider({ scheme: "file", language: "livecodescript" }, foldingProvider));
+    context.subscriptions.push(semanticTokensProvider);
+    context.subscriptions.push(vscode.languages.registerDocumentSemanticTokensProvider({ scheme: "file", language: "livecodescript" }, semanticTokensProvider, LivecodescriptSemanticTokensLegend));
+    context.subscriptions.push(vscode.languages.registerCodeActionsProvider({ scheme: "file", language: "livecodescript" }, codeActionProvider, { providedCodeActionKinds: LivecodescriptCodeActionProvider.providedCodeActionKinds }));
+    context.subscriptions.push(vscode.languages.registerDocumentFormattingEditProvider({ scheme: "file", language: "livecodescript" }, formatProvider));
     context.subscriptions.push(vscode.languages.registerDocumentRangeFormattingEditProvider({ scheme: "file", language: "livecodescript" }, formatProvider));
+    context.subscriptions.push(vscode.languages.registerOnTypeFormattingEditProvider({ scheme: "file", language: "livecodescript" }, onTypeFormattingProvider, "\n", ...OnTypeTriggerCharacters));
 
 
     context.subscriptions.push(vscode.languages.registerDocumentSymbolProvider({ scheme: "file", language: "livecodebuilder" }, LCBsymbolProvider));
     context.subscriptions.push(vscode.languages.registerDefinitionProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderDefinitionProvider));
+    context.subscriptions.push(vscode.languages.registerRenameProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderRenameProvider));
+    context.subscriptions.push(vscode.languages.registerHoverProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderHoverProvider));
+    context.subscriptions.push(vscode.languages.registerCompletionItemProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderCompletionProvider));
+    context.subscriptions.push(vscode.languages.registerFoldingRangeProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderFoldingProvider));
+    context.subscriptions.push(vscode.languages.registerDocumentFormattingEditProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderFormatProvider));
     context.subscriptions.push(vscode.languages.registerDocumentRangeFormattingEditProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderFormatProvider));
+    context.subscriptions.push(vscode.languages.registerOnTypeFormattingEditProvider({ scheme: "file", language: "livecodebuilder" }, LCBuilderOnTypeFormattingProvider, "\n", ...OnTypeTriggerCharacters));
+    context.subscriptions.push(vscode.languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider));
     context.subscriptions.push(LiveCodeStackEditorProvider.register(context, sender));
 }
@@ -0,0 +1,177 @@
+import * as cp from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { parseModule } from "./LCBparser";
+import { dependencyFolders } from "./LCBinterfaces";
+import LivecodebuilderInterfaceCache from "./LCBinterfaceCache";
+
+
+const enum Setting {
+    LCBCompilerPath = "livecodebuilder.LCBCompilerPath",
+    OutputFolder = "livecodebuilder.compile.outputFolder",
+}
+
+const TaskType = "livecodebuilder";
+const ProblemMatcher = "$lc-compile";
+
+interface CompileTaskDefinition extends vscode.TaskDefinition {
+    /** The module to compile, relative to the workspace folder. */
+    file: string;
+}
+
+
+/**
+ * Folder the compiled `.lcm` bytecode and `.lci` interface of a module are
+ * written to: `livecodebuilder.compile.outputFolder`, relative to the
+ * workspace folder of the module or, outside of a workspace, to the module.
+ */
+export function outputFolder(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const setting = vscode.workspace.getConfiguration(undefined, uri).get<string>(Setting.OutputFolder, "build");
+    return path.resolve(folder ? folder.uri.fsPath : path.dirname(uri.fsPath), setting);
+}
+
+/**
+ * Compiles a module with `lc-compile` into `output`, passing its output to
+ * `write` as it comes. The output folder and the existing `modulePaths` are
+ * searched for the interfaces of the modules it uses. Resolves with whether
+ * it compiled.
+ */
+export async function compileModule(uri: vscode.Uri, output: string, modulePaths: string[], write: (text: string) => void, token?: vscode.CancellationToken): Promise<boolean> {
+    const compiler = vscode.workspace.getConfiguration().get<string>(Setting.LCBCompilerPath, "");
+    if (!compiler) {
+        write(`No LiveCode Builder compiler is set. Use the setting '${Setting.LCBCompilerPath}' to configure lc-compile.\n`);
+        return false;
+    }
+
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+    } catch (error) {
+        write(`Cannot read ${uri.fsPath}: ${(error as Error).message}\n`);
+        return false;
+    }
+    // lc-compile looks interfaces up by module name
+    const name = parseModule(text).name ?? path.basename(uri.fsPath, path.extname(uri.fsPath));
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(output));
+
+    const searched = [output, ...modulePaths].filter(folder => fs.existsSync(folder));
+    const args = [
+        ...searched.reduce((all, folder) => all.concat("--modulepath", folder), [] as string[]),
+        "--output", path.join(output, `${name}.lcm`),
+        "--interface", path.join(output, `${name}.lci`),
+        "--", uri.fsPath,
+    ];
+    write(`${compiler} ${args.map(arg => arg.includes(" ") ? `"${arg}"` : arg).join(" ")}\n`);
+
+    return new Promise<boolean>((resolve) => {
+        const child = cp.spawn(compiler, args, { cwd: path.dirname(uri.fsPath) });
+        const cancellation = token?.onCancellationRequested(() => child.kill());
+        child.stdout.on("data", (data: Buffer) => write(data.toString()));
+        child.stderr.on("data", (data: Buffer) => write(data.toString()));
+        child.on("error", (error: Error) => {
+            write(`Cannot run ${compiler}: ${error.message}\n`);
+            resolve(false);
+        });
+        child.on("close", (code) => {
+            cancellation?.dispose();
+            resolve(code === 0);
+        });
+    });
+}
+
+
+/**
+ * The `LiveCode Builder: Compile Module` command, which compiles the active
+ * module into the output channel, and the `livecodebuilder` tasks, one build
+ * task per module of the workspace, whose output goes through the
+ * `$lc-compile` problem matcher. The interfaces of the workspace modules are
+ * found in the interface cache.
+ */
+export default class LivecodebuilderCompiler implements vscode.TaskProvider {
+    private output = vscode.window.createOutputChannel("LiveCode Builder");
+
+    constructor(private interfaceCache: LivecodebuilderInterfaceCache) {
+    }
+
+    public activate(subscriptions: vscode.Disposable[]) {
+        subscriptions.push(this.output);
+        subscriptions.push(vscode.commands.registerCommand("livecodebuilder.compileModule", (uri?: vscode.Uri) => this.compileCommand(uri)));
+        subscriptions.push(vscode.tasks.registerTaskProvider(TaskType, this));
+    }
+
+    public async provideTasks(token: vscode.CancellationToken): Promise<vscode.Task[]> {
+        const uris = await vscode.workspace.findFiles("**/*.lcb", "**/node_modules/**", undefined, token);
+        return uris
+            .filter(uri => vscode.workspace.getWorkspaceFolder(uri))
+            .map(uri => {
+                const folder = vscode.workspace.getWorkspaceFolder(uri)!;
+                return this.createTask({ type: TaskType, file: path.relative(folder.uri.fsPath, uri.fsPath).replace(/\\/g, "/") }, folder);
+            });
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as CompileTaskDefinition;
+        if (!definition.file || !task.scope || typeof task.scope === "number") {
+            return undefined;
+        }
+        return this.createTask(definition, task.scope);
+    }
+
+    private createTask(definition: CompileTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+        const uri = vscode.Uri.file(path.resolve(folder.uri.fsPath, definition.file));
+        const execution = new vscode.CustomExecution(async () => new CompileTerminal(uri, this.modulePaths(), this.output));
+        const task = new vscode.Task(definition, folder, `compile ${definition.file}`, TaskType, execution, ProblemMatcher);
+        task.group = vscode.TaskGroup.Build;
+        return task;
+    }
+
+    private async compileCommand(uri: vscode.Uri | undefined): Promise<void> {
+        const document = uri ? vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString()) : vscode.window.activeTextEditor?.document;
+        if (document && document.isDirty) {
+            await document.save();
+        }
+        const target = uri ?? document?.uri;
+        if (!target || path.extname(target.fsPath).toLowerCase() !== ".lcb") {
+            vscode.window.showErrorMessage("Open a LiveCode Builder module to compile it.");
+            return;
+        }
+
+        this.output.show(true);
+        const compiled = await compileModule(target, outputFolder(target), this.modulePaths(), text => this.output.append(text));
+        if (compiled) {
+            vscode.window.setStatusBarMessage(`Compiled ${path.basename(target.fsPath)}`, 5000);
+        } else {
+            vscode.window.showErrorMessage(`Compiling ${path.basename(target.fsPath)} failed, see the LiveCode Builder output.`);
+        }
+    }
+
+    private modulePaths(): string[] {
+        return [this.interfaceCache.folder, ...dependencyFolders()];
+    }
+}
+
+
+/** Runs a compilation in the terminal of a task, copying its output to the output channel. */
+class CompileTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    private closeEmitter = new vscode.EventEmitter<number>();
+    private cancellation = new vscode.CancellationTokenSource();
+    public onDidWrite = this.writeEmitter.event;
+    public onDidClose = this.closeEmitter.event;
+
+    constructor(private uri: vscode.Uri, private modulePaths: string[], private output: vscode.OutputChannel) {
+    }
+
+    public open(): void {
+        compileModule(this.uri, outputFolder(this.uri), this.modulePaths, text => {
+            this.output.append(text);
+            this.writeEmitter.fire(text.replace(/\r?\n/g, "\r\n"));
+        }, this.cancellation.token).then(compiled => this.closeEmitter.fire(compiled ? 0 : 1));
+    }
+
+    public close(): void {
+        this.cancellation.cancel();
+    }
+}
@@ -0,0 +1,138 @@
+import * as vscode from "vscode";
+import { Declaration, DeclarationKind, declarationSignature, Handler, handlerAt, handlerSignature, parseDocument, Syntax, syntaxSignature } from "./LCBparser";
+import LivecodebuilderInterfaces from "./LCBinterfaces";
+
+
+const DeclarationCompletionKinds: { [kind in DeclarationKind]: vscode.CompletionItemKind } = {
+    variable: vscode.CompletionItemKind.Variable,
+    constant: vscode.CompletionItemKind.Constant,
+    property: vscode.CompletionItemKind.Property,
+    type: vscode.CompletionItemKind.Class,
+};
+
+
+/**
+ * Completes the names visible in a module and the handlers, types,
+ * constants and syntax phrases of the modules it `use`s, read from their
+ * `.lci` interface files.
+ */
+export class LivecodebuilderCompletionProvider implements vscode.CompletionItemProvider {
+
+    constructor(private interfaces: LivecodebuilderInterfaces) {
+    }
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.CompletionContext): Promise<vscode.CompletionItem[] | undefined> {
+        const module = parseDocument(document);
+        if (module.comments.some(c => c.range.contains(position)) || module.strings.some(s => s.range.start.isBefore(position) && s.range.end.isAfter(position))) {
+            return;
+        }
+
+        await this.interfaces.ready;
+        const before = document.lineAt(position.line).text.substring(0, position.character);
+        if (/^\s*use\s+[\w.]*$/i.test(before)) {
+            return this.interfaces.all().map(entry => new vscode.CompletionItem(entry.interface.name, vscode.CompletionItemKind.Module));
+        }
+
+        const items = new Map<string, vscode.CompletionItem>();
+        const add = (item: vscode.CompletionItem) => {
+            const key = (typeof item.label === "string" ? item.label : item.label.label).toLowerCase();
+            if (!items.has(key)) {
+                items.set(key, item);
+            }
+        };
+
+        // Names visible from the position, innermost first
+        const handler = handlerAt(module, position);
+        if (handler) {
+            handler.parameters.forEach(p => add(new vscode.CompletionItem(p.name, vscode.CompletionItemKind.Variable)));
+            handler.declarations.forEach(d => add(declarationItem(d)));
+        }
+        module.declarations.forEach(d => add(declarationItem(d)));
+        module.handlers.forEach(h => add(handlerItem(h)));
+
+        for (const entry of this.interfaces.used(module)) {
+            const name = entry.interface.name;
+            entry.interface.handlers.forEach(h => add(handlerItem(h, name)));
+            entry.interface.declarations.forEach(d => add(declarationItem(d, name)));
+            entry.interface.syntaxes.forEach(s => {
+                const item = syntaxItem(s, name);
+                if (item) {
+                    add(item);
+                }
+            });
+        }
+        return Array.from(items.values());
+    }
+}
+
+
+/** Shows which module a definition comes from. */
+function moduleDocumentation(moduleName: string | undefined): vscode.MarkdownString | undefined {
+    return moduleName ? new vscode.MarkdownString(`From \`${moduleName}\``) : undefined;
+}
+
+function handlerItem(handler: Handler, moduleName?: string): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(handler.name, vscode.CompletionItemKind.Function);
+    item.detail = handlerSignature(handler);
+    item.documentation = moduleDocumentation(moduleName);
+    return item;
+}
+
+function declarationItem(declaration: Declaration, moduleName?: string): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(declaration.name, DeclarationCompletionKinds[declaration.kind]);
+    item.detail = declarationSignature(declaration);
+    item.documentation = moduleDocumentation(moduleName);
+    return item;
+}
+
+/**
+ * A snippet of the phrase of a syntax definition, e.g. `draw ${1:mPath}` for
+ * `"draw" <mPath: Expression>`. Optional `[...]` parts are left out of the
+ * snippet, which stops at the first alternative or group.
+ */
+function syntaxItem(syntax: Syntax, moduleName: string): vscode.CompletionItem | undefined {
+    const parts = (syntax.pattern ?? "").match(/"(?:[^"\\]|\\.)*"|<\s*\w+\s*:[^>]*>|\S/g) ?? [];
+    const words: string[] = [];
+    const snippet: string[] = [];
+    let placeholders = 0;
+    let optional = 0;
+    let complete = true;
+    for (const part of parts) {
+        const mark = /^<\s*(\w+)/.exec(part);
+        const inSnippet = complete && optional === 0;
+        if (part.startsWith("\"")) {
+            words.push(part.slice(1, -1));
+            if (inSnippet) {
+                snippet.push(part.slice(1, -1).replace(/[$}\\]/g, "\\$&"));
+            }
+        } else if (mark) {
+            words.push(`<${mark[1]}>`);
+            if (inSnippet) {
+                snippet.push(`\${${++placeholders}:${mark[1]}}`);
+            }
+        } else {
+            words.push(part);
+            if (part === "[") {
+                optional++;
+            } else if (part === "]" && optional > 0) {
+                optional--;
+            } else if (optional === 0) {
+                complete = false;
+            }
+        }
+    }
+    if (snippet.length === 0) {
+        return undefined;
+    }
+
+    const item = new vscode.CompletionItem(words.join(" ").replace(/([[({]) /g, "$1").replace(/ ([\])}])/g, "$1"), vscode.CompletionItemKind.Snippet);
+    item.insertText = new vscode.SnippetString(snippet.join(" "));
+    item.filterText = words.filter(word => /^\w/.test(word)).join(" ");
+    item.detail = syntaxSignature(syntax);
+    item.documentation = moduleDocumentation(moduleName);
+    return item;
+}
@@ -1,56 +1,84 @@
 import * as vscode from "vscode";
-import * as cp from "child_process";
-import * as path from 'path';
+import { isWord, lookupName, Module, parseDocument, sameName } from "./LCBparser";
+import LivecodebuilderInterfaces from "./LCBinterfaces";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
 
 
 
 
 export class LivecodebuilderDefinitionProvider implements vscode.DefinitionProvider {
 
-    provideDefinition(origDocument, position, token) {
-        const word = origDocument.getText(origDocument.getWordRangeAtPosition(position));
-
-         const  defPattern = new RegExp(`(((\\s)*(private|unsafe|foreign|public|handler)+(\\s))|((\\s)*(private|variable|constant)+(\\s)+.*))${word}(\\s|\\(|$){1}?`, 'gm');
-         
-         const  localPattern = new RegExp(`(((\\s)*(private)+(\\s))|((\\s)*(local)+(\\s)+.*))${word}(?:\\s|$)`, 'gim');
-     
-        
-    
-        const json = origDocument.getText();
-        if (defPattern.test(json)) {  //Primero verificamos si el patron esta en el archivo (mas rapido)
-            for (var i = 0; i < origDocument.lineCount; i++) {
-                currentline = origDocument.lineAt(i);
-                if (defPattern.test(currentline.text)) {
-                    return new vscode.Location(vscode.Uri.file(origDocument.uri.fsPath), currentline.range.start);
-                }
-            }
+    constructor(private index: LivecodeWorkspaceIndex, private interfaces: LivecodebuilderInterfaces) {
+    }
+
+    async provideDefinition(origDocument: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location[] | undefined> {
+        const module = parseDocument(origDocument);
+        const statement = module.statements.find(s => s.range.contains(position));
+        const target = statement?.tokens.find(t => t.range.contains(position));
+        if (!target || !isWord(target)) {
+            return;
+        }
+        const word = target.text;
+
+        await Promise.all([this.index.ready, this.interfaces.ready]);
+
+        // `use com.acme.foo` opens the module, from its source when there is one
+        const use = module.uses.find(u => u.range.isEqual(target.range));
+        if (use) {
+            const location = this.moduleLocation(use.name);
+            return location ? [location] : undefined;
+        }
+
+        const definition = lookupName(module, word, position);
+        if (definition) {
+            return [new vscode.Location(origDocument.uri, definition.range)];
         }
-    
-    
-    
-        for (let document of vscode.workspace.textDocuments) {
-            //  if (origDocument==document) continue;
-            const json = document.getText();
-    
-            if (defPattern.test(json)) {  //Primero verificamos si el patron esta en el archivo (mas rapido)
-                for (var i = 0; i < document.lineCount; i++) {
-                    var currentline = document.lineAt(i);
-    
-                    if (defPattern.test(currentline.text)) {
-                        if (localPattern.test(currentline.text) && origDocument !== document) {
-                            return;
-                        } else {
-                            return new vscode.Location(vscode.Uri.file(document.uri.fsPath), currentline.range.start);
-                        }
-                    }
-                }
+
+        // Public definitions of the used modules, in the order they are used
+        for (const used of module.uses) {
+            const location = this.definitionInModule(used.name, word);
+            if (location) {
+                return [location];
             }
-    
         }
-    
-    
-    
+
+        // Other modules only expose their public definitions
+        const locations = this.index.findDefinitions(word, "livecodebuilder")
+            .filter(location => location.uri.toString() !== origDocument.uri.toString());
+        return locations.length > 0 ? locations : undefined;
+    }
+
+    /** The source of a module in the workspace or the dependency folders. */
+    private findSource(name: string): { uri: vscode.Uri, module: Module } | undefined {
+        return this.index.modules().find(entry => entry.module.name !== undefined && sameName(entry.module.name, name))
+            ?? this.interfaces.findSource(name);
+    }
+
+    private moduleLocation(name: string): vscode.Location | undefined {
+        const source = this.findSource(name);
+        if (source && source.module.nameRange) {
+            return new vscode.Location(source.uri, source.module.nameRange);
+        }
+        const compiled = this.interfaces.get(name);
+        return compiled ? new vscode.Location(compiled.uri, compiled.interface.nameRange) : undefined;
     }
-    
 
+    private definitionInModule(moduleName: string, name: string): vscode.Location | undefined {
+        const source = this.findSource(moduleName);
+        if (source) {
+            const definition = lookupName(source.module, name);
+            return definition && definition.public ? new vscode.Location(source.uri, definition.range) : undefined;
+        }
+
+        // Without the source, the interface file at least shows the signature
+        const compiled = this.interfaces.get(moduleName);
+        if (!compiled) {
+            return undefined;
+        }
+        const found = [...compiled.interface.handlers, ...compiled.interface.declarations, ...compiled.interface.syntaxes].find(d => sameName(d.name, name));
+        if (!found) {
+            return undefined;
+        }
+        return new vscode.Location(compiled.uri, "nameRange" in found ? found.nameRange : found.range);
+    }
 }
@@ -0,0 +1,38 @@
+import * as vscode from "vscode";
+import { parseDocument } from "./LCBparser";
+import { commentFoldingRanges, structureFoldingRange } from "../utils/folding";
+
+
+export class LivecodebuilderFoldingRangeProvider implements vscode.FoldingRangeProvider {
+
+    public provideFoldingRanges(
+        document: vscode.TextDocument,
+        context: vscode.FoldingContext,
+        token: vscode.CancellationToken): vscode.FoldingRange[] {
+        const module = parseDocument(document);
+        const ranges: (vscode.FoldingRange | undefined)[] = [];
+
+        if (module.range) {
+            ranges.push(structureFoldingRange(module.range, module.end !== undefined));
+        }
+        for (const handler of module.handlers.filter(h => !h.foreign)) {
+            ranges.push(structureFoldingRange(handler.range, handler.end !== undefined));
+        }
+        for (const syntax of module.syntaxes) {
+            ranges.push(structureFoldingRange(syntax.range, syntax.end !== undefined));
+        }
+
+        for (const block of module.blocks) {
+            const starts = [block.range.start, ...block.branches.map(branch => branch.range.start)];
+            starts.forEach((start, index) => {
+                const next = starts[index + 1];
+                ranges.push(next
+                    ? structureFoldingRange(new vscode.Range(start, next), true)
+                    : structureFoldingRange(new vscode.Range(start, block.range.end), block.closed));
+            });
+        }
+
+        ranges.push(...commentFoldingRanges(module.comments));
+        return ranges.filter((range): range is vscode.FoldingRange => range !== undefined);
+    }
+}
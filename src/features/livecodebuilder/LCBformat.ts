@@ -1,91 +1,38 @@
 import * as vscode from "vscode";
-import * as cp from "child_process";
-import * as path from 'path';
+import { formatModule } from "./LCBformatter";
+import { minimalEdits } from "../utils/textDiff";
 
 
 
-export class LivecodebuilderFormattingProvider implements vscode.DocumentRangeFormattingEditProvider {
-    public async provideDocumentRangeFormattingEdits(
+export class LivecodebuilderFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+
+    public provideDocumentFormattingEdits(
         document: vscode.TextDocument,
-        range: vscode.Range,
         options: vscode.FormattingOptions,
         token: vscode.CancellationToken
-    ): Promise<vscode.TextEdit[]> {
-        
-        // if perltidy is not defined, then skip the formatting
-        let config = vscode.workspace.getConfiguration('livecodescript');
-        let executable = config.get("LivecodeServerExecutablePath", "");
-
-        if (!vscode.workspace.getConfiguration('livecodescript').get("LivecodeServerExecutablePath")) {
-            return [];
-        }
-
-        return new Promise<vscode.TextEdit[]>((resolve, reject) => {
-            if (range.start.line !== range.end.line) {
-                range = range.with(
-                    range.start.with(range.start.line, 0),
-                    range.end.with(range.end.line, Number.MAX_VALUE)
-                );
-            }
-
-            let config = vscode.workspace.getConfiguration('livecodescript');
-            let executable = config.get("LivecodeServerExecutablePath", "");
- 
-            let args: string[] = [(path.resolve(__dirname, '../../../tools/Formatter.lc')).replace(/[\\]+/g,"/"), '-scope=.source.lcb'];
- 
-          /*  let container = config.get("perltidyContainer", "");
-            if (container !== "") {
-                args = ["exec", "-i", container, executable].concat(args);
-                executable = "docker";
-            }*/
-
-            let text = document.getText(range);
-            let child = cp.spawn(executable, args, {
-                cwd: vscode.workspace.rootPath
-            });
-            child.stdin.write(text);
-            child.stdin.end();
-
-            let stdout = "";
-            child.stdout.on("data", (out: Buffer) => {
-                stdout += out.toString();
-            });
-
-            let stderr = "";
-            child.stderr.on("data", (out: Buffer) => {
-                stderr += out.toString();
-            });
+    ): vscode.TextEdit[] {
+        let range = new vscode.Range(new vscode.Position(0, 0), document.lineAt(document.lineCount - 1).range.end);
+        return this.provideDocumentRangeFormattingEdits(document, range, options, token);
+    }
 
-            let error: Error;
-            child.on("error", (err: Error) => {
-                error = err;
-            });
+    public provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        // Whole lines are formatted, indented from the structure of the whole module
+        range = new vscode.Range(range.start.line, 0, range.end.line, document.lineAt(range.end.line).range.end.character);
 
-            child.on("close", (code, signal) => {
-                let message = "";
+        let config = vscode.workspace.getConfiguration('livecodebuilder');
+        let indentation = config.get("indentation", "editor");
+        let indentationSize = config.get<number | null>("indentationSize", null);
 
-                if (error) {
-                    message = error.message;
-                } else if (stderr) {
-                    message = stderr;
-                } else if (code !== 0) {
-                    message = stdout;
-                }
+        let formatted = formatModule(document.getText(), {
+            useTabs: indentation === "editor" ? !options.insertSpaces : indentation === "tab",
+            indentationSize: indentationSize ?? options.tabSize,
+        }).split("\n").slice(range.start.line, range.end.line + 1).join("\n");
 
-                if (code !== 0) {
-                    message = message.trim();
-                    let formatted = `Could not format, code: ${code}, error: ${message}`;
-                    reject(formatted);
-                } else {
-                    if (!text.endsWith("\n")) {
-                        stdout = stdout.slice(0, -1); // remove trailing newline
-                    }
-                    resolve([new vscode.TextEdit(range, stdout)]);
-                }
-            });
-        }).catch(reason => {
-            console.error(reason);
-            return [];
-        });
+        return minimalEdits(range, document.getText(range), formatted);
     }
 }
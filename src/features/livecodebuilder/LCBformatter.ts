@@ -0,0 +1,83 @@
+import { isWord, ModuleKeywords, Token } from "./LCBparser";
+import { tokenize } from "../utils/tokenizer";
+import { FormatterOptions } from "../livecodescript/LCSformatter";
+
+
+/*
+ * Indentation of LiveCode Builder modules. `tools/Formatter.lc` leaves LCB
+ * text as it is, so modules are indented in-process: the body of a module,
+ * handler, `syntax`, `if`, `repeat` and `unsafe` block is indented one level,
+ * `else` and the `begin` of a syntax definition line up with the line that
+ * opened their block.
+ */
+
+
+const Modifiers = ["public", "private", "unsafe", "__safe"];
+
+
+/** Formats a module; every line of the result ends with a line break, as with `formatScript`. */
+export function formatModule(text: string, options: FormatterOptions): string {
+    const size = options.useTabs ? 1 : (Number.isInteger(options.indentationSize) && options.indentationSize >= 1 ? options.indentationSize : 2);
+    const unit = (options.useTabs ? "\t" : " ").repeat(size);
+
+    const lines = text.split(/\r?\n/);
+    if (text.endsWith("\n")) {
+        lines.pop();
+    }
+    const tokenized = tokenize(lines.join("\n"), { qualifiedNames: true, stringEscapes: true });
+    const inBlockComment = (line: number) => tokenized.comments.some(comment => comment.block && comment.range.start.line < line && line <= comment.range.end.line);
+
+    // Kind of every open block, innermost last: `module`, `handler`, `syntax`, `if`, ...
+    const blocks: string[] = [];
+    let result = "";
+
+    lines.forEach((original, line) => {
+        const trimmed = original.trim();
+        if (trimmed === "") {
+            result += "\n";
+            return;
+        }
+        if (inBlockComment(line)) {
+            // Keep the ` * ` of documentation comments aligned, leave other comment text as written
+            result += (trimmed.startsWith("*") ? unit.repeat(blocks.length) + " " + trimmed : original) + "\n";
+            return;
+        }
+
+        const tokens = tokenized.lines[line];
+        let index = 0;
+        while (isWord(tokens[index]) && Modifiers.includes(tokens[index].text.toLowerCase()) && isWord(tokens[index + 1])) {
+            index++;
+        }
+        const first = word(tokens[index]);
+        const second = word(tokens[index + 1]);
+        const top = blocks[blocks.length - 1];
+
+        let level = blocks.length;
+        if (first === "end") {
+            const open = blocks.lastIndexOf(second);
+            if (open >= 0) {
+                blocks.length = open;
+                level = open;
+            }
+        } else if ((first === "else" && top === "if") || (first === "begin" && top === "syntax")) {
+            level--;
+        }
+        result += unit.repeat(level) + trimmed + "\n";
+
+        if (first === "handler"
+            || (first === "syntax" && isWord(tokens[index + 1]))
+            || (first === "if" && isWord(tokens[tokens.length - 1], "then"))
+            || first === "repeat"
+            || (first === "unsafe" && tokens.length === 1)
+            || ((ModuleKeywords as string[]).includes(first) && isWord(tokens[index + 1]) && blocks.length === 0)) {
+            blocks.push(first);
+        }
+    });
+
+    return result;
+}
+
+
+function word(token: Token | undefined): string {
+    return isWord(token) ? token!.text.toLowerCase() : "";
+}
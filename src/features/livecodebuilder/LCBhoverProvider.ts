@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+import { declarationSignature, findHandlers, handlerSignature, isWord, lookupName, ModuleInterface, parseDocument, sameName, syntaxSignature } from "./LCBparser";
+import LivecodebuilderInterfaces from "./LCBinterfaces";
+
+
+/**
+ * Shows the signature of handlers of the module and of the handlers, types,
+ * constants and syntax definitions of the modules it `use`s.
+ */
+export class LivecodebuilderHoverProvider implements vscode.HoverProvider {
+
+    constructor(private interfaces: LivecodebuilderInterfaces) {
+    }
+
+    public async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        const module = parseDocument(document);
+        const statement = module.statements.find(s => s.range.contains(position));
+        const word = statement?.tokens.find(t => t.range.contains(position));
+        if (!word || !isWord(word)) {
+            return;
+        }
+
+        await this.interfaces.ready;
+        const use = module.uses.find(u => u.range.isEqual(word.range));
+        if (use) {
+            const entry = this.interfaces.get(use.name);
+            return entry ? new vscode.Hover(interfaceMarkdown(entry.interface), word.range) : undefined;
+        }
+
+        // Names of the module itself hide those of the modules it uses
+        const definition = lookupName(module, word.text, position);
+        if (definition) {
+            const handler = findHandlers(module, word.text)[0];
+            return handler && handler.nameRange.isEqual(definition.range)
+                ? new vscode.Hover(new vscode.MarkdownString().appendCodeblock(handlerSignature(handler), "livecodebuilder"), word.range)
+                : undefined;
+        }
+
+        for (const entry of this.interfaces.used(module)) {
+            const signature = interfaceSignature(entry.interface, word.text);
+            if (signature) {
+                const markdown = new vscode.MarkdownString().appendCodeblock(signature, "livecodebuilder").appendMarkdown(`From \`${entry.interface.name}\``);
+                return new vscode.Hover(markdown, word.range);
+            }
+        }
+        return undefined;
+    }
+}
+
+
+function interfaceSignature(moduleInterface: ModuleInterface, name: string): string | undefined {
+    const handler = moduleInterface.handlers.find(h => sameName(h.name, name));
+    if (handler) {
+        return handlerSignature(handler);
+    }
+    const declaration = moduleInterface.declarations.find(d => sameName(d.name, name));
+    if (declaration) {
+        return declarationSignature(declaration);
+    }
+    const syntax = moduleInterface.syntaxes.find(s => sameName(s.name, name));
+    return syntax ? syntaxSignature(syntax) : undefined;
+}
+
+/** What a used module provides, one line per kind of definition. */
+function interfaceMarkdown(moduleInterface: ModuleInterface): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString().appendCodeblock(`module ${moduleInterface.name}`, "livecodebuilder");
+    const list = (label: string, names: string[]) => {
+        if (names.length > 0) {
+            markdown.appendMarkdown(`\n\n**${label}:** ${names.map(name => `\`${name}\``).join(", ")}`);
+        }
+    };
+    list("Handlers", moduleInterface.handlers.map(h => h.name));
+    list("Types", moduleInterface.declarations.filter(d => d.kind === "type").map(d => d.name));
+    list("Constants", moduleInterface.declarations.filter(d => d.kind === "constant").map(d => d.name));
+    list("Syntax", moduleInterface.syntaxes.map(s => s.name));
+    return markdown;
+}
@@ -0,0 +1,191 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { Module, sameName } from "./LCBparser";
+import { dependencyFolders } from "./LCBinterfaces";
+import { compileModule } from "./LCBcompiler";
+import LivecodeWorkspaceIndex, { languageOf } from "../workspace/workspaceIndex";
+
+
+const enum Setting {
+    LCBCompilerPath = "livecodebuilder.LCBCompilerPath",
+    LCBDependenciesPath = "livecodebuilder.LCBDependenciesPath",
+}
+
+interface WorkspaceModule {
+    uri: vscode.Uri;
+    module: Module;
+    /** Lower case names of the workspace modules it uses. */
+    uses: string[];
+}
+
+
+/**
+ * Compiles the modules of the workspace into a folder of the extension's
+ * workspace storage, so that a module can be validated against the `.lci`
+ * interfaces of the workspace modules it uses. Modules are compiled in the
+ * order of their `use` statements: when a module changes, it is compiled
+ * again followed by every module that depends on it, and those are then
+ * reported to be validated again. The interfaces of modules that are no
+ * longer in the workspace are deleted. Compilation output is dropped, errors
+ * are reported by validation.
+ */
+export default class LivecodebuilderInterfaceCache implements vscode.Disposable {
+    public readonly folder: string;
+    private queue: Promise<void> = Promise.resolve();
+    private compiledEmitter = new vscode.EventEmitter<vscode.Uri[]>();
+    private dependentsEmitter = new vscode.EventEmitter<vscode.Uri[]>();
+
+    /** Fires with the modules whose interface was written to the cache. */
+    public readonly onDidCompile = this.compiledEmitter.event;
+
+    /** Fires with the modules compiled again because a module they use changed or was deleted. */
+    public readonly onDidCompileDependents = this.dependentsEmitter.event;
+
+    constructor(private index: LivecodeWorkspaceIndex, storage: vscode.Uri) {
+        this.folder = path.join(storage.fsPath, "lci");
+    }
+
+    public activate(subscriptions: vscode.Disposable[]) {
+        subscriptions.push(this);
+
+        // Modules are ordered from the index, so wait for it to read the changed files
+        this.index.onDidChange((uris) => {
+            const modules = uris.filter(uri => languageOf(uri) === "livecodebuilder");
+            if (modules.length === 1) {
+                this.update(modules[0]);
+            } else if (modules.length > 1) {
+                this.update();
+            }
+        }, null, subscriptions);
+
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration(Setting.LCBCompilerPath) || event.affectsConfiguration(Setting.LCBDependenciesPath)) {
+                this.update();
+            }
+        }, null, subscriptions);
+
+        this.update();
+    }
+
+    public dispose(): void {
+        this.compiledEmitter.dispose();
+        this.dependentsEmitter.dispose();
+    }
+
+    /**
+     * Compiles a changed module and the modules depending on it or, without
+     * one, every module whose cached interface is older than its source.
+     * Runs after the compilations already queued.
+     */
+    private update(changed?: vscode.Uri): Promise<void> {
+        this.queue = this.queue
+            .then(() => this.compileModules(changed))
+            .catch(error => console.error(`Cannot compile the LiveCode Builder interface cache: ${error}`));
+        return this.queue;
+    }
+
+    private async compileModules(changed: vscode.Uri | undefined): Promise<void> {
+        if (!vscode.workspace.getConfiguration().get<string>(Setting.LCBCompilerPath, "")) {
+            return;
+        }
+        await this.index.ready;
+        const modules = dependencyOrder(this.workspaceModules());
+        await vscode.workspace.fs.createDirectory(vscode.Uri.file(this.folder));
+        const deleted = await this.deleteRemovedInterfaces(modules);
+        // The index also reports files that were only closed
+        let changedModule = changed && modules.find(entry => entry.uri.toString() === changed.toString());
+        if (changedModule && !(await this.isOutOfDate(changedModule))) {
+            changedModule = undefined;
+        }
+        if (changed && !changedModule && deleted.length === 0) {
+            return;
+        }
+
+        // Modules using a deleted module are compiled again to report it
+        const compiled = new Set<string>(deleted);
+        const compiledUris: vscode.Uri[] = [];
+        const dependents: vscode.Uri[] = [];
+        for (const entry of modules) {
+            const usesCompiled = entry.module.uses.some(use => compiled.has(use.name.toLowerCase()));
+            const stale = changed ? entry === changedModule || usesCompiled : usesCompiled || await this.isOutOfDate(entry);
+            if (!stale) {
+                continue;
+            }
+            await compileModule(entry.uri, this.folder, dependencyFolders(), () => undefined);
+            compiled.add(entry.module.name!.toLowerCase());
+            compiledUris.push(entry.uri);
+            if (usesCompiled) {
+                dependents.push(entry.uri);
+            }
+        }
+
+        if (compiledUris.length > 0) {
+            this.compiledEmitter.fire(compiledUris);
+        }
+        if ((changed || deleted.length > 0) && dependents.length > 0) {
+            this.dependentsEmitter.fire(dependents);
+        }
+    }
+
+    /**
+     * Deletes the cached interfaces of modules that are no longer in the
+     * workspace, and returns their lower case names.
+     */
+    private async deleteRemovedInterfaces(modules: WorkspaceModule[]): Promise<string[]> {
+        const names = new Set(modules.map(entry => entry.module.name!.toLowerCase()));
+        const deleted: string[] = [];
+        for (const [file, type] of await vscode.workspace.fs.readDirectory(vscode.Uri.file(this.folder))) {
+            const name = path.basename(file, ".lci").toLowerCase();
+            if (type === vscode.FileType.File && path.extname(file) === ".lci" && !names.has(name)) {
+                await vscode.workspace.fs.delete(vscode.Uri.file(path.join(this.folder, file)));
+                deleted.push(name);
+            }
+        }
+        return deleted;
+    }
+
+    private workspaceModules(): WorkspaceModule[] {
+        const modules = this.index.modules().filter(entry => entry.module.name);
+        const names = new Set(modules.map(entry => entry.module.name!.toLowerCase()));
+        return modules.map(entry => ({
+            uri: entry.uri,
+            module: entry.module,
+            uses: entry.module.uses.map(use => use.name.toLowerCase()).filter(name => names.has(name)),
+        }));
+    }
+
+    private async isOutOfDate(entry: WorkspaceModule): Promise<boolean> {
+        try {
+            const source = await vscode.workspace.fs.stat(entry.uri);
+            const cached = await vscode.workspace.fs.stat(vscode.Uri.file(path.join(this.folder, `${entry.module.name}.lci`)));
+            return source.mtime > cached.mtime;
+        } catch (error) {
+            return true;
+        }
+    }
+}
+
+
+/**
+ * Orders modules so that every module comes after the workspace modules it
+ * uses. Modules that use each other are ordered as they are found.
+ */
+function dependencyOrder(modules: WorkspaceModule[]): WorkspaceModule[] {
+    const ordered: WorkspaceModule[] = [];
+    const visited = new Set<WorkspaceModule>();
+    const visit = (entry: WorkspaceModule) => {
+        if (visited.has(entry)) {
+            return;
+        }
+        visited.add(entry);
+        for (const name of entry.uses) {
+            const used = modules.find(other => sameName(other.module.name!, name));
+            if (used) {
+                visit(used);
+            }
+        }
+        ordered.push(entry);
+    };
+    modules.forEach(visit);
+    return ordered;
+}
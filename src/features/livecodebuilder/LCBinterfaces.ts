@@ -0,0 +1,190 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { Module, ModuleInterface, parseInterface, parseModule, sameName } from "./LCBparser";
+import LivecodebuilderInterfaceCache from "./LCBinterfaceCache";
+
+
+const InterfaceGlob = "**/*.lci";
+
+export interface InterfaceEntry {
+    uri: vscode.Uri;
+    interface: ModuleInterface;
+}
+
+export interface SourceEntry {
+    uri: vscode.Uri;
+    module: Module;
+}
+
+
+/**
+ * Folders searched for compiled modules: the `;` separated
+ * `livecodebuilder.LCBDependenciesPath` folders, relative ones to the first
+ * workspace folder, and the `modules/lci` folder of the LiveCode toolchain
+ * next to `lc-compile`.
+ */
+export function dependencyFolders(): string[] {
+    const config = vscode.workspace.getConfiguration("livecodebuilder");
+    const root = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0] ? vscode.workspace.workspaceFolders[0].uri.fsPath : "";
+    const folders = config.get("LCBDependenciesPath", "")
+        .split(";")
+        .map(folder => folder.trim().replace(/"/g, ""))
+        .filter(folder => folder !== "")
+        .map(folder => path.resolve(root, folder));
+    const compiler = config.get("LCBCompilerPath", "");
+    if (compiler) {
+        folders.push(path.join(path.dirname(compiler), "modules", "lci"));
+    }
+    return folders;
+}
+
+
+/**
+ * Keeps the parsed `.lci` interface files of the interface cache, of the
+ * workspace and of the dependency folders, so that modules can be used
+ * without their sources, and the `.lcb` sources found in the dependency
+ * folders, so that their definitions can be opened. Workspace files are kept
+ * up to date through a file watcher, the interface cache whenever modules
+ * are compiled into it and dependency folders are read again when the
+ * settings change.
+ */
+export default class LivecodebuilderInterfaces implements vscode.Disposable {
+    private cachedInterfaces = new Map<string, InterfaceEntry>();
+    private workspaceInterfaces = new Map<string, InterfaceEntry>();
+    private dependencyInterfaces = new Map<string, InterfaceEntry>();
+    private dependencySources = new Map<string, SourceEntry>();
+    public ready: Promise<void> = Promise.resolve();
+
+    constructor(private interfaceCache: LivecodebuilderInterfaceCache) {
+    }
+
+    public activate(subscriptions: vscode.Disposable[]) {
+        subscriptions.push(this);
+
+        const watcher = vscode.workspace.createFileSystemWatcher(InterfaceGlob);
+        watcher.onDidCreate(uri => this.readInterface(uri, this.workspaceInterfaces), null, subscriptions);
+        watcher.onDidChange(uri => this.readInterface(uri, this.workspaceInterfaces), null, subscriptions);
+        watcher.onDidDelete(uri => this.workspaceInterfaces.delete(uri.toString()), null, subscriptions);
+        subscriptions.push(watcher);
+
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("livecodebuilder.LCBDependenciesPath") || event.affectsConfiguration("livecodebuilder.LCBCompilerPath")) {
+                this.ready = this.readDependencies();
+            }
+        }, null, subscriptions);
+        this.interfaceCache.onDidCompile(() => this.ready = this.readCache(), null, subscriptions);
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this.ready = this.readAll(), null, subscriptions);
+
+        this.ready = this.readAll();
+    }
+
+    public dispose(): void {
+        this.cachedInterfaces.clear();
+        this.workspaceInterfaces.clear();
+        this.dependencyInterfaces.clear();
+        this.dependencySources.clear();
+    }
+
+    public all(): InterfaceEntry[] {
+        return [...this.cachedInterfaces.values(), ...this.workspaceInterfaces.values(), ...this.dependencyInterfaces.values()];
+    }
+
+    /** The interface of the module called `name`, the interface cache and workspace files first. */
+    public get(name: string): InterfaceEntry | undefined {
+        return this.all().find(entry => sameName(entry.interface.name, name));
+    }
+
+    /** The source of the module called `name` in the dependency folders. */
+    public findSource(name: string): SourceEntry | undefined {
+        return Array.from(this.dependencySources.values()).find(entry => entry.module.name !== undefined && sameName(entry.module.name, name));
+    }
+
+    /** Interfaces of the modules named in the `use` statements of a module. */
+    public used(module: Module): InterfaceEntry[] {
+        return module.uses
+            .map(use => this.get(use.name))
+            .filter((entry): entry is InterfaceEntry => entry !== undefined);
+    }
+
+    private async readAll(): Promise<void> {
+        this.workspaceInterfaces.clear();
+        const uris = await vscode.workspace.findFiles(InterfaceGlob);
+        for (const uri of uris) {
+            await this.readInterface(uri, this.workspaceInterfaces);
+        }
+        await this.readCache();
+        await this.readDependencies();
+    }
+
+    /** Reads the interfaces the workspace modules were compiled to. */
+    private async readCache(): Promise<void> {
+        let files: [string, vscode.FileType][];
+        try {
+            files = await vscode.workspace.fs.readDirectory(vscode.Uri.file(this.interfaceCache.folder));
+        } catch (error) {
+            // Nothing was compiled yet
+            files = [];
+        }
+        this.cachedInterfaces.clear();
+        for (const [name, type] of files) {
+            if (type === vscode.FileType.File && path.extname(name).toLowerCase() === ".lci") {
+                await this.readInterface(vscode.Uri.file(path.join(this.interfaceCache.folder, name)), this.cachedInterfaces);
+            }
+        }
+    }
+
+    private async readDependencies(): Promise<void> {
+        this.dependencyInterfaces.clear();
+        this.dependencySources.clear();
+        for (const folder of dependencyFolders()) {
+            await this.readFolder(folder, true);
+        }
+    }
+
+    /** Reads the interfaces of a dependency folder and the sources in it and its sub-folders. */
+    private async readFolder(folder: string, interfaces: boolean): Promise<void> {
+        let files: [string, vscode.FileType][];
+        try {
+            files = await vscode.workspace.fs.readDirectory(vscode.Uri.file(folder));
+        } catch (error) {
+            // Missing folders are reported by lc-compile when validating
+            return;
+        }
+        for (const [name, type] of files) {
+            const uri = vscode.Uri.file(path.join(folder, name));
+            const extension = path.extname(name).toLowerCase();
+            if (type === vscode.FileType.Directory && !name.startsWith(".") && name !== "node_modules") {
+                await this.readFolder(uri.fsPath, false);
+            } else if (type === vscode.FileType.File && extension === ".lci" && interfaces) {
+                await this.readInterface(uri, this.dependencyInterfaces);
+            } else if (type === vscode.FileType.File && extension === ".lcb") {
+                await this.readSource(uri);
+            }
+        }
+    }
+
+    private async readSource(uri: vscode.Uri): Promise<void> {
+        try {
+            const module = parseModule(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8"));
+            if (module.name) {
+                this.dependencySources.set(uri.toString(), { uri, module });
+            }
+        } catch (error) {
+            // Unreadable files are left out
+        }
+    }
+
+    private async readInterface(uri: vscode.Uri, interfaces: Map<string, InterfaceEntry>): Promise<void> {
+        let parsed: ModuleInterface | undefined;
+        try {
+            parsed = parseInterface(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8"));
+        } catch (error) {
+            parsed = undefined;
+        }
+        if (parsed) {
+            interfaces.set(uri.toString(), { uri, interface: parsed });
+        } else {
+            interfaces.delete(uri.toString());
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import { isWord, Module, parseDocument, sameName, Statement } from "./LCBparser";
+import { endsWithClosingKeyword, indentationOf, indentUnit, reindent } from "../utils/onTypeFormatting";
+
+
+const OpeningKeywords = ["repeat", "begin"];
+
+
+/**
+ * Re-indents `else` and `end` lines to the structure they belong to once
+ * they are typed, and indents the line after a line that opens a block
+ * when Enter is pressed.
+ */
+export class LivecodebuilderOnTypeFormattingProvider implements vscode.OnTypeFormattingEditProvider {
+
+    public provideOnTypeFormattingEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        ch: string,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken): vscode.TextEdit[] {
+        if (ch !== "\n" && !endsWithClosingKeyword(document, position)) {
+            return [];
+        }
+        const module = parseDocument(document);
+
+        if (ch !== "\n") {
+            const statement = module.statements.find(s => s.range.start.line === position.line);
+            const indentation = statement && closingIndentation(document, module, statement);
+            return indentation !== undefined ? reindent(document, position.line, indentation) : [];
+        }
+
+        const previous = module.statements.find(s => s.range.end.line === position.line - 1);
+        if (!previous) {
+            return [];
+        }
+        const closing = closingIndentation(document, module, previous);
+        const edits = closing !== undefined ? reindent(document, previous.range.start.line, closing) : [];
+        if (opensBlock(module, previous)) {
+            const base = closing ?? indentationOf(document, previous.range.start.line);
+            edits.push(...reindent(document, position.line, base + indentUnit(options)));
+        }
+        return edits;
+    }
+}
+
+
+/** Indentation of an `end` or `else` line: that of the line that opened its structure. */
+function closingIndentation(document: vscode.TextDocument, module: Module, statement: Statement): string | undefined {
+    if (isWord(statement.tokens[0], "end")) {
+        const name = statement.tokens[1];
+        const handler = module.handlers.find(h => h.end === statement);
+        const syntax = module.syntaxes.find(s => s.end === statement);
+        if (handler || syntax) {
+            return indentationOf(document, (handler ?? syntax)!.header.range.start.line);
+        }
+        if (module.end === statement && module.range) {
+            return name && module.kind && sameName(name.text, module.kind) ? indentationOf(document, module.range.start.line) : undefined;
+        }
+        const block = statement.block;
+        if (block && block.closed && block.range.end.isEqual(statement.range.end)) {
+            return indentationOf(document, block.range.start.line);
+        }
+        return undefined;
+    }
+
+    const block = statement.block;
+    if (block && block.branches.includes(statement)) {
+        return indentationOf(document, block.range.start.line);
+    }
+    return undefined;
+}
+
+function opensBlock(module: Module, statement: Statement): boolean {
+    const tokens = statement.tokens;
+    if (module.handlers.some(handler => handler.header === statement && !handler.foreign)
+        || module.syntaxes.some(syntax => syntax.header === statement)
+        || (module.range && module.range.start.isEqual(statement.range.start))) {
+        return true;
+    }
+    if (isWord(tokens[tokens.length - 1], "then")) {
+        return true;
+    }
+    if (isWord(tokens[0], "else") || isWord(tokens[0], "unsafe")) {
+        return tokens.length === 1;
+    }
+    return OpeningKeywords.some(keyword => isWord(tokens[0], keyword));
+}
@@ -0,0 +1,540 @@
+import * as vscode from "vscode";
+import { Comment, groupStatements, isWord, sameName, Token, TokenKind, tokenize } from "../utils/tokenizer";
+
+
+/*
+ * Error tolerant parser for LiveCode Builder modules, built the same way as
+ * the LiveCode Script parser: tokens, then statements, then structure.
+ */
+
+
+export { Comment, isWord, sameName, Token, TokenKind } from "../utils/tokenizer";
+
+export interface Statement {
+    tokens: Token[];
+    range: vscode.Range;
+    handler?: Handler;
+    /** Innermost control structure the statement belongs to. */
+    block?: ControlBlock;
+}
+
+export type ControlKind = "if" | "repeat" | "unsafe";
+
+export interface ControlBlock {
+    kind: ControlKind;
+    range: vscode.Range;
+    closed: boolean;
+    /** `else` lines. */
+    branches: Statement[];
+    parent?: ControlBlock;
+    handler?: Handler;
+}
+
+export type ParameterMode = "in" | "out" | "inout";
+
+export interface Parameter {
+    name: string;
+    mode: ParameterMode;
+    type?: string;
+    range: vscode.Range;
+}
+
+export type DeclarationKind = "variable" | "constant" | "property" | "type";
+
+export interface Declaration {
+    kind: DeclarationKind;
+    name: string;
+    range: vscode.Range;
+    public: boolean;
+    /** Declared type of variables and type aliases. */
+    type?: string;
+    /** Value of constants. */
+    value?: string;
+    statement: Statement;
+    handler?: Handler;
+}
+
+export interface Handler {
+    name: string;
+    nameRange: vscode.Range;
+    range: vscode.Range;
+    header: Statement;
+    public: boolean;
+    unsafe: boolean;
+    foreign: boolean;
+    parameters: Parameter[];
+    returns?: string;
+    declarations: Declaration[];
+    statements: Statement[];
+    blocks: ControlBlock[];
+    /** The `end handler` statement, missing for foreign or unclosed handlers. */
+    end?: Statement;
+}
+
+export interface Use {
+    name: string;
+    range: vscode.Range;
+    statement: Statement;
+}
+
+export interface Syntax {
+    name: string;
+    nameRange: vscode.Range;
+    range: vscode.Range;
+    header: Statement;
+    public: boolean;
+    /** `statement`, `expression`, `iterator`, ... */
+    class?: string;
+    /** The phrase the syntax matches, e.g. `"redraw" "all"`, written before `begin`. */
+    pattern?: string;
+    end?: Statement;
+}
+
+export type ModuleKind = "module" | "widget" | "library";
+
+export interface Module {
+    kind?: ModuleKind;
+    name?: string;
+    nameRange?: vscode.Range;
+    range?: vscode.Range;
+    end?: Statement;
+    uses: Use[];
+    handlers: Handler[];
+    /** Module level variables, constants, properties and types. */
+    declarations: Declaration[];
+    syntaxes: Syntax[];
+    comments: Comment[];
+    strings: Token[];
+    statements: Statement[];
+    blocks: ControlBlock[];
+    /** `end` statements that do not close anything. */
+    strayEnds: Statement[];
+}
+
+/**
+ * The public definitions of a compiled module, read from the `.lci` interface
+ * file `lc-compile` writes next to the bytecode.
+ */
+export interface ModuleInterface {
+    name: string;
+    nameRange: vscode.Range;
+    uses: string[];
+    handlers: Handler[];
+    declarations: Declaration[];
+    syntaxes: Syntax[];
+}
+
+
+export const ModuleKeywords: ModuleKind[] = ["module", "widget", "library"];
+export const ControlKeywords: ControlKind[] = ["if", "repeat", "unsafe"];
+const Modifiers = ["public", "private", "unsafe", "__safe"];
+const DeclarationKeywords: DeclarationKind[] = ["variable", "constant", "property", "type"];
+
+
+export function parseModule(text: string): Module {
+    const tokens = tokenize(text, { qualifiedNames: true, stringEscapes: true });
+    const module: Module = {
+        uses: [],
+        handlers: [],
+        declarations: [],
+        syntaxes: [],
+        comments: tokens.comments,
+        strings: tokens.strings,
+        statements: [],
+        blocks: [],
+        strayEnds: [],
+    };
+
+    buildStructure(module, groupStatements(tokens.lines));
+    return module;
+}
+
+/**
+ * Parses an interface file: an `import <module>` block listing the public
+ * types, constants, variables, handler signatures and syntax definitions of
+ * a module. Handlers have no body there.
+ */
+export function parseInterface(text: string): ModuleInterface | undefined {
+    const tokens = tokenize(text, { qualifiedNames: true, stringEscapes: true });
+    let result: ModuleInterface | undefined;
+    let syntax: Syntax | undefined;
+    let inSyntaxBody = false;
+
+    for (const statement of groupStatements(tokens.lines)) {
+        const statementTokens = statement.tokens;
+        let index = 0;
+        while (isWord(statementTokens[index]) && Modifiers.includes(statementTokens[index].text.toLowerCase()) && isWord(statementTokens[index + 1])) {
+            index++;
+        }
+        const first = isWord(statementTokens[index]) ? statementTokens[index].text.toLowerCase() : "";
+        const second = isWord(statementTokens[index + 1]) ? statementTokens[index + 1].text.toLowerCase() : "";
+
+        if (!result) {
+            if (first === "import" && second) {
+                result = { name: statementTokens[index + 1].text, nameRange: statementTokens[index + 1].range, uses: [], handlers: [], declarations: [], syntaxes: [] };
+            }
+            continue;
+        }
+
+        if (syntax) {
+            if (first === "end" && second === "syntax") {
+                syntax.end = statement;
+                syntax.range = new vscode.Range(syntax.header.range.start, statement.range.end);
+                syntax = undefined;
+            } else if (first === "begin") {
+                inSyntaxBody = true;
+            } else if (!inSyntaxBody) {
+                syntax.pattern = [syntax.pattern, tokensText(statementTokens)].filter(Boolean).join(" ");
+            }
+            continue;
+        }
+
+        if (first === "end" && second === "import") {
+            break;
+        } else if (first === "use" && second) {
+            result.uses.push(statementTokens[index + 1].text);
+        } else if (first === "handler" || (first === "foreign" && second === "handler")) {
+            const foreign = first === "foreign";
+            const handler = parseHandlerHeader(statement, index + (foreign ? 2 : 1), true, false, foreign);
+            if (handler) {
+                result.handlers.push(handler);
+            }
+        } else if ((DeclarationKeywords as string[]).includes(first) && second) {
+            result.declarations.push({
+                kind: first as DeclarationKind,
+                name: statementTokens[index + 1].text,
+                range: statementTokens[index + 1].range,
+                public: true,
+                type: first === "variable" ? typeAfter(statementTokens, index + 2, "as") : first === "type" ? typeAfter(statementTokens, index + 2, "is") : undefined,
+                value: first === "constant" ? typeAfter(statementTokens, index + 2, "is") : undefined,
+                statement,
+            });
+        } else if (first === "syntax" && second) {
+            syntax = {
+                name: statementTokens[index + 1].text,
+                nameRange: statementTokens[index + 1].range,
+                range: statement.range,
+                header: statement,
+                public: true,
+                class: isWord(statementTokens[index + 2], "is") && isWord(statementTokens[index + 3]) ? statementTokens[index + 3].text : undefined,
+            };
+            inSyntaxBody = false;
+            result.syntaxes.push(syntax);
+        }
+    }
+    return result;
+}
+
+
+const cache = new WeakMap<vscode.TextDocument, { version: number, module: Module }>();
+
+/**
+ * Returns the parsed module of a document, cached for the current version.
+ */
+export function parseDocument(document: vscode.TextDocument): Module {
+    let entry = cache.get(document);
+    if (!entry || entry.version !== document.version) {
+        entry = { version: document.version, module: parseModule(document.getText()) };
+        cache.set(document, entry);
+    }
+    return entry.module;
+}
+
+
+/** The handler header, e.g. `public handler MCFoo(in pX as Number) returns Boolean`. */
+export function handlerSignature(handler: Handler): string {
+    const parameters = handler.parameters.map(p => `${p.mode} ${p.name}${p.type ? " as " + p.type : ""}`).join(", ");
+    const modifiers = (handler.public ? "public " : "") + (handler.foreign ? "foreign " : handler.unsafe ? "unsafe " : "");
+    return `${modifiers}handler ${handler.name}(${parameters})${handler.returns ? " returns " + handler.returns : ""}`;
+}
+
+/** The declaration, e.g. `constant kPi is 3.14` or `variable mCount as Number`. */
+export function declarationSignature(declaration: Declaration): string {
+    const detail = declaration.kind === "variable" ? declaration.type && " as " + declaration.type
+        : declaration.kind === "type" ? declaration.type && " is " + declaration.type
+        : declaration.kind === "constant" ? declaration.value && " is " + declaration.value
+        : undefined;
+    return `${declaration.kind} ${declaration.name}${detail ?? ""}`;
+}
+
+/** The header and phrase of a syntax definition, e.g. `syntax RedrawAll is statement "redraw" "all"`. */
+export function syntaxSignature(syntax: Syntax): string {
+    return `syntax ${syntax.name}${syntax.class ? " is " + syntax.class : ""}${syntax.pattern ? "\n    " + syntax.pattern : ""}`;
+}
+
+
+export function handlerAt(module: Module, position: vscode.Position): Handler | undefined {
+    return module.handlers.find(handler => handler.range.contains(position));
+}
+
+export function findHandlers(module: Module, name: string): Handler[] {
+    return module.handlers.filter(handler => sameName(handler.name, name));
+}
+
+/**
+ * Resolves a name from a position: parameters and handler variables first,
+ * then module declarations, handlers and syntax definitions.
+ */
+export function lookupName(module: Module, name: string, position?: vscode.Position): { name: string, range: vscode.Range, public: boolean } | undefined {
+    const handler = position ? handlerAt(module, position) : undefined;
+    if (handler) {
+        const parameter = handler.parameters.find(p => sameName(p.name, name));
+        if (parameter) {
+            return { name: parameter.name, range: parameter.range, public: false };
+        }
+        const declaration = handler.declarations.find(d => sameName(d.name, name));
+        if (declaration) {
+            return { name: declaration.name, range: declaration.range, public: false };
+        }
+    }
+
+    const declaration = module.declarations.find(d => sameName(d.name, name));
+    if (declaration) {
+        return { name: declaration.name, range: declaration.range, public: declaration.public };
+    }
+
+    const target = findHandlers(module, name)[0];
+    if (target) {
+        return { name: target.name, range: target.nameRange, public: target.public };
+    }
+
+    const syntax = module.syntaxes.find(s => sameName(s.name, name));
+    if (syntax) {
+        return { name: syntax.name, range: syntax.nameRange, public: syntax.public };
+    }
+    return undefined;
+}
+
+
+function buildStructure(module: Module, statements: Statement[]): void {
+    let handler: Handler | undefined;
+    let syntax: Syntax | undefined;
+    let inSyntaxBody = false;
+    let block: ControlBlock | undefined;
+
+    const closeHandler = (end?: Statement) => {
+        if (!handler) {
+            return;
+        }
+        block = undefined;
+        handler.end = end;
+        const last = end ?? handler.statements[handler.statements.length - 1] ?? handler.header;
+        handler.range = new vscode.Range(handler.header.range.start, last.range.end);
+        handler = undefined;
+    };
+
+    for (const statement of statements) {
+        module.statements.push(statement);
+        const tokens = statement.tokens;
+
+        let index = 0;
+        let isPublic = false;
+        let isUnsafe = false;
+        while (isWord(tokens[index]) && Modifiers.includes(tokens[index].text.toLowerCase()) && isWord(tokens[index + 1])) {
+            const modifier = tokens[index].text.toLowerCase();
+            isPublic = isPublic || modifier === "public";
+            isUnsafe = isUnsafe || modifier === "unsafe";
+            index++;
+        }
+        const first = isWord(tokens[index]) ? tokens[index].text.toLowerCase() : "";
+        const second = isWord(tokens[index + 1]) ? tokens[index + 1].text.toLowerCase() : "";
+
+        if (syntax) {
+            if (first === "end" && second === "syntax") {
+                syntax.end = statement;
+                syntax.range = new vscode.Range(syntax.header.range.start, statement.range.end);
+                syntax = undefined;
+            } else if (first === "begin") {
+                inSyntaxBody = true;
+            } else if (!inSyntaxBody) {
+                syntax.pattern = [syntax.pattern, tokensText(tokens)].filter(Boolean).join(" ");
+            }
+            continue;
+        }
+
+        if (first === "handler" || (first === "foreign" && second === "handler")) {
+            const foreign = first === "foreign";
+            const parsed = parseHandlerHeader(statement, index + (foreign ? 2 : 1), isPublic, isUnsafe, foreign);
+            if (parsed) {
+                closeHandler();
+                module.handlers.push(parsed);
+                if (!foreign) {
+                    handler = parsed;
+                }
+                continue;
+            }
+        }
+
+        if ((DeclarationKeywords as string[]).includes(first) && isWord(tokens[index + 1])) {
+            const declaration: Declaration = {
+                kind: first as DeclarationKind,
+                name: tokens[index + 1].text,
+                range: tokens[index + 1].range,
+                public: isPublic,
+                type: first === "variable" ? typeAfter(tokens, index + 2, "as") : first === "type" ? typeAfter(tokens, index + 2, "is") : undefined,
+                value: first === "constant" ? typeAfter(tokens, index + 2, "is") : undefined,
+                statement,
+                handler,
+            };
+            (handler ? handler.declarations : module.declarations).push(declaration);
+        }
+
+        if (!handler) {
+            if ((ModuleKeywords as string[]).includes(first) && isWord(tokens[index + 1]) && !module.kind) {
+                module.kind = first as ModuleKind;
+                module.name = tokens[index + 1].text;
+                module.nameRange = tokens[index + 1].range;
+                module.range = statement.range;
+            } else if (first === "end" && (ModuleKeywords as string[]).includes(second) && module.range) {
+                module.end = statement;
+                module.range = new vscode.Range(module.range.start, statement.range.end);
+            } else if (first === "use" && isWord(tokens[index + 1])) {
+                module.uses.push({ name: tokens[index + 1].text, range: tokens[index + 1].range, statement });
+            } else if (first === "syntax" && isWord(tokens[index + 1])) {
+                syntax = {
+                    name: tokens[index + 1].text,
+                    nameRange: tokens[index + 1].range,
+                    range: statement.range,
+                    header: statement,
+                    public: isPublic,
+                    class: isWord(tokens[index + 2], "is") && isWord(tokens[index + 3]) ? tokens[index + 3].text : undefined,
+                };
+                inSyntaxBody = false;
+                module.syntaxes.push(syntax);
+            } else if (first === "end") {
+                module.strayEnds.push(statement);
+            }
+            continue;
+        }
+
+        statement.handler = handler;
+        statement.block = block;
+        handler.statements.push(statement);
+
+        if (first === "end") {
+            if (second === "handler") {
+                handler.statements.pop();
+                closeHandler(statement);
+                continue;
+            }
+            let target = block;
+            while (target && target.kind !== second) {
+                target = target.parent;
+            }
+            if (!target) {
+                module.strayEnds.push(statement);
+                continue;
+            }
+            target.closed = true;
+            target.range = new vscode.Range(target.range.start, statement.range.end);
+            statement.block = target;
+            block = target.parent;
+        } else if (first === "else") {
+            if (block && block.kind === "if") {
+                block.branches.push(statement);
+            }
+        } else if ((first === "if" && isWord(tokens[tokens.length - 1], "then")) || first === "repeat" || (first === "unsafe" && tokens.length === 1)) {
+            const opened: ControlBlock = {
+                kind: first as ControlKind,
+                range: statement.range,
+                closed: false,
+                branches: [],
+                parent: block,
+                handler,
+            };
+            module.blocks.push(opened);
+            handler.blocks.push(opened);
+            block = opened;
+        }
+    }
+
+    closeHandler();
+}
+
+
+function parseHandlerHeader(statement: Statement, index: number, isPublic: boolean, isUnsafe: boolean, foreign: boolean): Handler | undefined {
+    const tokens = statement.tokens;
+    const name = tokens[index];
+    if (!isWord(name)) {
+        return undefined;
+    }
+
+    const parameters: Parameter[] = [];
+    let position = index + 1;
+    if (tokens[position]?.text === "(") {
+        let segment: Token[] = [];
+        for (position++; position < tokens.length; position++) {
+            const token = tokens[position];
+            if (token.text === "," || token.text === ")") {
+                const parameter = parseParameter(segment);
+                if (parameter) {
+                    parameters.push(parameter);
+                }
+                segment = [];
+                if (token.text === ")") {
+                    position++;
+                    break;
+                }
+            } else {
+                segment.push(token);
+            }
+        }
+    }
+
+    return {
+        name: name.text,
+        nameRange: name.range,
+        range: statement.range,
+        header: statement,
+        public: isPublic,
+        unsafe: isUnsafe || foreign,
+        foreign,
+        parameters,
+        returns: isWord(tokens[position], "returns") ? typeAfter(tokens, position, "returns", "binds") : undefined,
+        declarations: [],
+        statements: [],
+        blocks: [],
+    };
+}
+
+
+function parseParameter(tokens: Token[]): Parameter | undefined {
+    let index = 0;
+    let mode: ParameterMode = "in";
+    if (isWord(tokens[0], "in") || isWord(tokens[0], "out") || isWord(tokens[0], "inout")) {
+        mode = tokens[0].text.toLowerCase() as ParameterMode;
+        index++;
+    }
+    const name = tokens[index];
+    if (!isWord(name)) {
+        return undefined;
+    }
+    return { name: name.text, mode, type: typeAfter(tokens, index + 1, "as"), range: name.range };
+}
+
+
+/**
+ * Returns the text following `keyword` at `index`, up to `stop` when given.
+ */
+function typeAfter(tokens: Token[], index: number, keyword: string, stop?: string): string | undefined {
+    if (!isWord(tokens[index], keyword)) {
+        return undefined;
+    }
+    const words: string[] = [];
+    for (const token of tokens.slice(index + 1)) {
+        if (stop && isWord(token, stop)) {
+            break;
+        }
+        words.push(token.text);
+    }
+    return words.length > 0 ? words.join(" ") : undefined;
+}
+
+/** The text of a run of tokens, with one space where they were apart. */
+function tokensText(tokens: Token[]): string {
+    return tokens.map((token, index) => {
+        const previous = tokens[index - 1];
+        const apart = previous && (previous.range.end.line !== token.range.start.line || previous.range.end.character < token.range.start.character);
+        return (apart ? " " : "") + token.text;
+    }).join("");
+}
@@ -0,0 +1,70 @@
+import * as vscode from "vscode";
+import { Handler, handlerAt, isWord, Module, sameName, Statement } from "./LCBparser";
+
+
+/*
+ * Finds the places a module level definition or a handler variable is used in
+ * a parsed module.
+ */
+
+
+export type ReferenceTarget =
+    /** Handlers, syntax, module variables, constants, properties and types. */
+    | { kind: "module", name: string, public: boolean }
+    /** Parameters and variables declared inside a handler. */
+    | { kind: "local", name: string, handler: Handler };
+
+export interface Reference {
+    range: vscode.Range;
+    declaration: boolean;
+}
+
+
+export function resolveTarget(module: Module, name: string, position: vscode.Position): ReferenceTarget | undefined {
+    const handler = handlerAt(module, position);
+    if (handler && declaresVariable(handler, name)) {
+        return { kind: "local", name, handler };
+    }
+
+    const definitions = [
+        ...module.handlers.map(h => ({ name: h.name, public: h.public })),
+        ...module.syntaxes.map(s => ({ name: s.name, public: s.public })),
+        ...module.declarations.map(d => ({ name: d.name, public: d.public })),
+    ];
+    const definition = definitions.find(d => sameName(d.name, name));
+    return definition ? { kind: "module", name: definition.name, public: definition.public } : undefined;
+}
+
+
+export function findReferences(module: Module, target: ReferenceTarget): Reference[] {
+    const declarations = target.kind === "local"
+        ? [...target.handler.parameters, ...target.handler.declarations]
+        : [...module.handlers.map(h => ({ name: h.name, range: h.nameRange })), ...module.syntaxes.map(s => ({ name: s.name, range: s.nameRange })), ...module.declarations.filter(d => !d.handler)];
+    const isDeclaration = (range: vscode.Range) => declarations.some(d => sameName(d.name, target.name) && d.range.isEqual(range));
+
+    let statements: Statement[];
+    if (target.kind === "local") {
+        statements = [target.handler.header, ...target.handler.statements];
+    } else {
+        // Handlers declaring a variable of the same name hide the module definition
+        statements = module.statements.filter(statement => {
+            const owner = statement.handler ?? module.handlers.find(handler => handler.header === statement);
+            return !owner || !declaresVariable(owner, target.name);
+        });
+    }
+
+    const references: Reference[] = [];
+    for (const statement of statements) {
+        for (const token of statement.tokens) {
+            if (isWord(token, target.name)) {
+                references.push({ range: token.range, declaration: isDeclaration(token.range) });
+            }
+        }
+    }
+    return references;
+}
+
+
+function declaresVariable(handler: Handler, name: string): boolean {
+    return handler.parameters.some(p => sameName(p.name, name)) || handler.declarations.some(d => sameName(d.name, name));
+}
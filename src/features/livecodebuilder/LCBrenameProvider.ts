@@ -0,0 +1,81 @@
+import * as vscode from "vscode";
+import { lookupName, Module, parseDocument, sameName } from "./LCBparser";
+import { findReferences, ReferenceTarget, resolveTarget } from "./LCBreferences";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
+
+
+const IdentifierExpression = /^[A-Za-z_][\w]*$/;
+
+
+export class LivecodebuilderRenameProvider implements vscode.RenameProvider {
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    public async prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken): Promise<vscode.Range> {
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange || !(await this.resolve(document, position, wordRange))) {
+            throw new Error("You can only rename definitions of this workspace.");
+        }
+        return wordRange;
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit | undefined> {
+        if (!IdentifierExpression.test(newName)) {
+            throw new Error(`'${newName}' is not a valid LiveCode Builder identifier.`);
+        }
+        const wordRange = document.getWordRangeAtPosition(position);
+        const resolved = wordRange ? await this.resolve(document, position, wordRange) : undefined;
+        if (!resolved) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const entry of resolved.modules) {
+            for (const reference of findReferences(entry.module, resolved.target)) {
+                edit.replace(entry.uri, reference.range, newName);
+            }
+        }
+        return edit;
+    }
+
+    /**
+     * Resolves the renamed definition and the modules it is visible from:
+     * public definitions reach every module that `use`s their module.
+     */
+    private async resolve(document: vscode.TextDocument, position: vscode.Position, wordRange: vscode.Range): Promise<{ target: ReferenceTarget, modules: { uri: vscode.Uri, module: Module }[] } | undefined> {
+        const module = parseDocument(document);
+        const name = document.getText(wordRange);
+        const local = [{ uri: document.uri, module }];
+
+        let target = resolveTarget(module, name, position);
+        if (target && (target.kind === "local" || !target.public)) {
+            return { target, modules: local };
+        }
+
+        await this.index.ready;
+        let owner = target ? module.name : undefined;
+        if (!target) {
+            // Public definitions of the modules used by this one
+            const used = this.index.modules().find(entry => entry.module.name && module.uses.some(use => sameName(use.name, entry.module.name!)) && lookupName(entry.module, name)?.public);
+            if (!used) {
+                return undefined;
+            }
+            target = { kind: "module", name, public: true };
+            owner = used.module.name;
+        }
+
+        const modules = this.index.modules().filter(entry =>
+            entry.uri.toString() === document.uri.toString()
+            || (owner && entry.module.name && sameName(entry.module.name, owner))
+            || (owner && entry.module.uses.some(use => sameName(use.name, owner!))));
+        return { target, modules };
+    }
+}
@@ -3,12 +3,16 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import * as cp from 'child_process';
 import * as which from 'which';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { ThrottledDelayer } from '../utils/async';
-import { LineDecoder } from '../utils/lineDecoder';
+import LivecodeWorker from '../utils/livecodeWorker';
+import { applyLintSettings, lintRuleSettings } from '../utils/lintSettings';
+import { LintRecord, lintRecordsToDiagnostics, parseLintRecord } from '../utils/lintRecords';
+import { parseDocument } from './LCBparser';
+import { dependencyFolders } from './LCBinterfaces';
+import LivecodebuilderInterfaceCache from './LCBinterfaceCache';
 import * as nls from 'vscode-nls';
 let localize = nls.loadMessageBundle();
 
@@ -44,23 +48,7 @@ namespace RunTrigger {
 }
 
 
-let lcbconfig = vscode.workspace.getConfiguration('livecodebuilder');
-let InclusionsPath = lcbconfig.get("LCBDependenciesPath", "");
-
-
 export default class LivecodebuilderValidationProvider {
-	
-
-	
-	private static MatchExpression: RegExp = /(?:(?:Parse|Fatal) error): (.*)(?: in )(.*?)(?: on line )(\d+)/;
-	//private static BufferArgs: string[] = ['--modulepath '+InclusionsPath, '-v'];
-	//private static FileArgs: string[] = ['--modulepath '+InclusionsPath,'-v'];
-	
-	private static BufferArgs: string[] = [path.resolve(__dirname, '../../../tools/Linter.lc').replace(/[\\]+/g,"/"), '-scope=.source.lcb', '-modulepaths='+InclusionsPath, '-lcbCompilerPath='+lcbconfig.get("LCBCompilerPath", "")];
-	private static FileArgs:   string[] = [path.resolve(__dirname, '../../../tools/Linter.lc').replace(/[\\]+/g,"/"), '-scope=.source.lcb', '-modulepaths='+InclusionsPath, '-lcbCompilerPath='+lcbconfig.get("LCBCompilerPath", "")];
-
-
-	
 
 	private validationEnabled: boolean;
 	private pauseValidation: boolean;
@@ -70,8 +58,10 @@ export default class LivecodebuilderValidationProvider {
 	private documentListener: vscode.Disposable | null = null;
 	private diagnosticCollection?: vscode.DiagnosticCollection;
 	private delayers?: { [key: string]: ThrottledDelayer<void> };
+	private workspaceDocuments = new Set<string>();
+	private openingDocuments = new Set<string>();
 
-	constructor() {
+	constructor(private worker: LivecodeWorker, private interfaceCache: LivecodebuilderInterfaceCache) {
 		this.validationEnabled = true;
 		this.pauseValidation = false;
 		this.loadConfigP = this.loadLCBConfiguration();
@@ -82,13 +72,67 @@ export default class LivecodebuilderValidationProvider {
 		subscriptions.push(this);
 		subscriptions.push(vscode.workspace.onDidChangeConfiguration(() => this.loadConfigP = this.loadLCBConfiguration()));
 
-		vscode.workspace.onDidOpenTextDocument(this.triggerValidateLCB, this, subscriptions);
+		vscode.workspace.onDidOpenTextDocument((textDocument) => {
+			// The workspace validation validates the documents it opens itself
+			if (!this.openingDocuments.has(textDocument.uri.toString())) {
+				this.triggerValidateLCB(textDocument);
+			}
+		}, null, subscriptions);
+		this.interfaceCache.onDidCompileDependents(this.revalidate, this, subscriptions);
 		vscode.workspace.onDidCloseTextDocument((textDocument) => {
-			this.diagnosticCollection!.delete(textDocument.uri);
-			delete this.delayers![textDocument.uri.toString()];
+			let key = textDocument.uri.toString();
+			if (!this.workspaceDocuments.has(key)) {
+				this.diagnosticCollection!.delete(textDocument.uri);
+			}
+			delete this.delayers![key];
 		}, null, subscriptions);
 	}
 
+	/**
+	 * Opens a file for the workspace wide validation without validating it
+	 * on open, since the workspace validation is about to.
+	 */
+	public async openWorkspaceDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+		const key = uri.toString();
+		this.openingDocuments.add(key);
+		try {
+			return await vscode.workspace.openTextDocument(uri);
+		} finally {
+			this.openingDocuments.delete(key);
+		}
+	}
+
+	/**
+	 * Validates a document for the workspace wide validation. It does not need
+	 * to be open in an editor and its diagnostics are kept when it is closed.
+	 */
+	public validateWorkspaceDocument(textDocument: vscode.TextDocument): Promise<void> {
+		this.workspaceDocuments.add(textDocument.uri.toString());
+		return this.triggerValidateLCB(textDocument);
+	}
+
+	/**
+	 * Validates modules again once the interface of a module they use was
+	 * compiled again, when they are open or part of the workspace validation.
+	 */
+	public revalidate(uris: vscode.Uri[]): void {
+		for (const uri of uris) {
+			const key = uri.toString();
+			const textDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === key);
+			if (textDocument) {
+				this.triggerValidateLCB(textDocument);
+			} else if (this.workspaceDocuments.has(key)) {
+				this.openWorkspaceDocument(uri).then(document => this.triggerValidateLCB(document), () => this.forget(uri));
+			}
+		}
+	}
+
+	/** Drops the diagnostics of a file that was deleted. */
+	public forget(uri: vscode.Uri): void {
+		this.workspaceDocuments.delete(uri.toString());
+		this.diagnosticCollection!.delete(uri);
+	}
+
 	public dispose(): void {
 		if (this.diagnosticCollection) {
 			this.diagnosticCollection.clear();
@@ -115,8 +159,10 @@ export default class LivecodebuilderValidationProvider {
 			this.documentListener.dispose();
 			this.documentListener = null;
 		}
-		this.diagnosticCollection!.clear();
 		if (this.validationEnabled) {
+			// Open documents are validated again below, the workspace validation
+			// keeps the results of the other files up to date
+			vscode.workspace.textDocuments.forEach(textDocument => this.diagnosticCollection!.delete(textDocument.uri));
 			if (this.config.trigger === RunTrigger.onType) {
 				this.documentListener = vscode.workspace.onDidChangeTextDocument((e) => {
 					this.triggerValidateLCB(e.document);
@@ -126,6 +172,8 @@ export default class LivecodebuilderValidationProvider {
 			}
 			// Configuration has changed. Reevaluate all documents.
 			vscode.workspace.textDocuments.forEach(this.triggerValidateLCB, this);
+		} else {
+			this.diagnosticCollection!.clear();
 		}
 	}
 
@@ -142,7 +190,7 @@ export default class LivecodebuilderValidationProvider {
 				delayer = new ThrottledDelayer<void>(this.config?.trigger === RunTrigger.onType ? 250 : 0);
 				this.delayers![key] = delayer;
 			}
-			delayer.trigger(() => this.doValidateLCB(textDocument));
+			await delayer.trigger(() => this.doValidateLCB(textDocument));
 		}
 	}
 
@@ -159,66 +207,39 @@ export default class LivecodebuilderValidationProvider {
 			if (!path.isAbsolute(executable)) {
 				// executable should either be resolved to an absolute path or undefined.
 				// This is just to be sure.
+				resolve();
 				return;
 			}
 
-			let decoder = new LineDecoder();
-			let diagnostics: vscode.Diagnostic[] = [];
+			let records: LintRecord[] = [];
 			let processLine = (line: string) => {
-				let matches = line.match(LivecodebuilderValidationProvider.MatchExpression);
-				if (matches) {
-					let message = matches[1];
-					let line = parseInt(matches[3]) - 1;
-					let diagnostic: vscode.Diagnostic = new vscode.Diagnostic(
-						new vscode.Range(line, 0, line, Number.MAX_VALUE),
-						message
-					);
-					diagnostics.push(diagnostic);
+				let record = parseLintRecord(line);
+				if (record) {
+					records.push(record);
 				}
 			};
 
-			let options = (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0]) ? { cwd: vscode.workspace.workspaceFolders[0].uri.fsPath } : undefined;
-			let args: string[];
+			// The interface cache holds the interfaces of the workspace modules
+			const modulePaths = [this.interfaceCache.folder, ...dependencyFolders()];
+			let args = ['-scope=.source.lcb', '-modulepaths=' + modulePaths.join(';'), '-lcbCompilerPath=' + vscode.workspace.getConfiguration().get(Setting.LCBCompilerPath, '')];
 			if (this.config!.trigger === RunTrigger.onSave) {
-				args = LivecodebuilderValidationProvider.FileArgs.slice(0);
 				args.push('-filepath='+textDocument.fileName.toString());
-			} else {
-				args = LivecodebuilderValidationProvider.BufferArgs;
-				args.push(textDocument.fileName);
 			}
-			try {
-				let childProcess = cp.spawn(executable, args, options);
-				childProcess.on('error', (error: Error) => {
-					if (this.pauseValidation) {
-						resolve();
-						return;
-					}
+			this.worker.request(executable, args, textDocument.getText()).then(output => {
+				output.split(/\r?\n/).forEach(processLine);
+				let diagnostics = lintRecordsToDiagnostics(records, textDocument, 'livecodebuilder');
+				this.diagnosticCollection!.set(textDocument.uri, applyLintSettings(diagnostics, parseDocument(textDocument).comments, lintRuleSettings()));
+				resolve();
+			}, (error: any) => {
+				if (!error.code) {
+					// The worker crashed or hung, it restarts with the next validation
+					console.error(error.message);
+				} else if (!this.pauseValidation) {
 					this.showError(error, executable);
 					this.pauseValidation = true;
-					resolve();
-				});
-				if (childProcess.pid) {
-					if (this.config!.trigger === RunTrigger.onType) {
-						childProcess.stdin.write(textDocument.getText());
-						childProcess.stdin.end();
-					}
-					childProcess.stdout.on('data', (data: Buffer) => {
-						decoder.write(data).forEach(processLine);
-					});
-					childProcess.stdout.on('end', () => {
-						let line = decoder.end();
-						if (line) {
-							processLine(line);
-						}
-						this.diagnosticCollection!.set(textDocument.uri, diagnostics);
-						resolve();
-					});
-				} else {
-					resolve();
 				}
-			} catch (error) {
-				this.showError(error, executable);
-			}
+				resolve();
+			});
 		});
 	}
 
@@ -0,0 +1,126 @@
+import * as vscode from "vscode";
+import { Handler, handlerAt, parseDocument, sameName, Script } from "./LCSparser";
+import { ruleId } from "../utils/lintSettings";
+
+
+/** Code of the linter diagnostics of variables that are not declared while `explicitVariables` is on. */
+const UndeclaredVariableRule = "undeclared-variable";
+const IdentifierExpression = /^[A-Za-z_][\w]*$/;
+
+
+export class LivecodescriptCodeActionProvider implements vscode.CodeActionProvider {
+
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        token: vscode.CancellationToken): vscode.CodeAction[] {
+        const script = parseDocument(document);
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            const name = undeclaredName(document, diagnostic);
+            if (!name) {
+                continue;
+            }
+            const handler = handlerAt(script, diagnostic.range.start);
+
+            if (handler) {
+                const local = this.createFix(`Declare '${name}' as local in handler`, diagnostic, document, handlerDeclaration(document, handler, `local ${name}`));
+                local.isPreferred = true;
+                actions.push(local);
+            }
+            actions.push(this.createFix(`Declare '${name}' as script local`, diagnostic, document, scriptDeclaration(document, script, `local ${name}`)));
+            actions.push(this.createFix(`Declare '${name}' as global`, diagnostic, document, scriptDeclaration(document, script, `global ${name}`)));
+
+            if (handler) {
+                const all = vscode.languages.getDiagnostics(document.uri)
+                    .filter(d => handler.range.contains(d.range.start))
+                    .map(d => ({ diagnostic: d, name: undeclaredName(document, d) }))
+                    .filter((entry, index, entries) => entry.name && entries.findIndex(other => sameName(other.name ?? "", entry.name!)) === index);
+                if (all.length > 1) {
+                    const names = all.map(entry => entry.name).join(", ");
+                    const fix = this.createFix("Declare all undeclared variables in this handler", diagnostic, document, handlerDeclaration(document, handler, `local ${names}`));
+                    fix.diagnostics = all.map(entry => entry.diagnostic);
+                    actions.push(fix);
+                }
+            }
+        }
+        return actions;
+    }
+
+    private createFix(title: string, diagnostic: vscode.Diagnostic, document: vscode.TextDocument, edit: vscode.TextEdit): vscode.CodeAction {
+        const fix = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        fix.diagnostics = [diagnostic];
+        fix.edit = new vscode.WorkspaceEdit();
+        fix.edit.set(document.uri, [edit]);
+        return fix;
+    }
+}
+
+
+/**
+ * The variable a diagnostic is about: the text of its range when the linter
+ * reports the exact token, otherwise the hint in parentheses of the message.
+ */
+function undeclaredName(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): string | undefined {
+    if (ruleId(diagnostic) !== UndeclaredVariableRule) {
+        return undefined;
+    }
+    if (diagnostic.range.isSingleLine && !diagnostic.range.isEmpty) {
+        const text = document.getText(diagnostic.range);
+        if (IdentifierExpression.test(text)) {
+            return text;
+        }
+    }
+    const hint = /\(([A-Za-z_]\w*)\)\s*$/.exec(diagnostic.message);
+    return hint ? hint[1] : undefined;
+}
+
+/** Inserts a declaration after the leading declarations of a handler, at its body's indentation. */
+function handlerDeclaration(document: vscode.TextDocument, handler: Handler, declaration: string): vscode.TextEdit {
+    let line = handler.header.range.end.line + 1;
+    for (const statement of handler.statements) {
+        if (!handler.declarations.some(d => d.statement === statement) || statement.range.start.line !== line) {
+            break;
+        }
+        line = statement.range.end.line + 1;
+    }
+
+    const headerIndent = indentation(document, handler.header.range.start.line);
+    const body = handler.statements[0];
+    const indent = body ? indentation(document, body.range.start.line) : headerIndent + "   ";
+    return insertLine(document, line, `${indent}${declaration}`);
+}
+
+/** Inserts a declaration after the script level declarations, or before the first handler. */
+function scriptDeclaration(document: vscode.TextDocument, script: Script, declaration: string): vscode.TextEdit {
+    const firstHandler = script.handlers[0]?.range.start.line ?? document.lineCount;
+    const declarations = script.declarations.filter(d => d.range.start.line < firstHandler);
+    let line: number;
+    if (declarations.length > 0) {
+        line = declarations[declarations.length - 1].statement.range.end.line + 1;
+    } else {
+        // Keep a `script "name"` line first
+        line = script.name !== undefined ? script.statements[0].range.end.line + 1 : 0;
+    }
+    return insertLine(document, line, declaration);
+}
+
+/**
+ * Inserts a line before `line`, with the line endings of the document. Past
+ * the last line, which has no line break, it goes after a new one.
+ */
+function insertLine(document: vscode.TextDocument, line: number, text: string): vscode.TextEdit {
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    if (line >= document.lineCount) {
+        return vscode.TextEdit.insert(document.lineAt(document.lineCount - 1).range.end, `${eol}${text}`);
+    }
+    return vscode.TextEdit.insert(new vscode.Position(line, 0), `${text}${eol}`);
+}
+
+function indentation(document: vscode.TextDocument, line: number): string {
+    return /^\s*/.exec(document.lineAt(line).text)![0];
+}
@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import { Handler, HandlerKind, handlerAt, handlerSignature, parseDocument, Script } from "./LCSparser";
+import { DictionaryEntry, dictionaryEntries, dictionaryMarkdown } from "./LCSdictionary";
+import { handlerMarkdown } from "./LCShoverProvider";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
+
+
+const HandlerCompletionKinds: { [kind in HandlerKind]: vscode.CompletionItemKind } = {
+    on: vscode.CompletionItemKind.Event,
+    before: vscode.CompletionItemKind.Event,
+    after: vscode.CompletionItemKind.Event,
+    command: vscode.CompletionItemKind.Method,
+    function: vscode.CompletionItemKind.Function,
+    getprop: vscode.CompletionItemKind.Property,
+    setprop: vscode.CompletionItemKind.Property,
+};
+
+const ObjectTypes = [
+    "button", "field", "graphic", "image", "player", "scrollbar", "widget", "group", "card", "stack",
+    "audioClip", "videoClip", "EPS", "me", "this card", "this stack",
+];
+
+
+export class LivecodescriptCompletionProvider implements vscode.CompletionItemProvider {
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    public async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.CompletionContext): Promise<vscode.CompletionItem[] | undefined> {
+        const script = parseDocument(document);
+        if (script.comments.some(c => c.range.contains(position)) || script.strings.some(s => s.range.start.isBefore(position) && s.range.end.isAfter(position))) {
+            return;
+        }
+
+        const wordRange = document.getWordRangeAtPosition(position);
+        const before = document.lineAt(position.line).text.substring(0, wordRange ? wordRange.start.character : position.character);
+        const previous = (/(\w+)\s+$/.exec(before) ?? [])[1]?.toLowerCase();
+
+        if (previous === "the") {
+            return dictionaryEntries()
+                .filter(entry => entry.type === "property" || (entry.type === "function" && entry.syntax.some(syntax => /^the\b/i.test(syntax))))
+                .map(dictionaryItem);
+        }
+        if (previous === "of") {
+            return ObjectTypes.map(type => new vscode.CompletionItem(type, vscode.CompletionItemKind.Class));
+        }
+
+        const items = new Map<string, vscode.CompletionItem>();
+        const add = (item: vscode.CompletionItem) => {
+            const key = (typeof item.label === "string" ? item.label : item.label.label).toLowerCase();
+            if (!items.has(key)) {
+                items.set(key, item);
+            }
+        };
+
+        // Names visible from the position, innermost first
+        const handler = handlerAt(script, position);
+        if (handler) {
+            handler.parameters.forEach(p => add(variableItem(p.name, "parameter")));
+            handler.declarations.forEach(d => add(variableItem(d.name, d.kind)));
+        }
+        script.declarations.forEach(d => add(variableItem(d.name, d.kind === "local" ? "script local" : d.kind)));
+        script.handlers.forEach(h => add(handlerItem(script, h)));
+
+        await this.index.ready;
+        for (const entry of this.index.scripts()) {
+            if (entry.uri.toString() !== document.uri.toString()) {
+                entry.script.handlers.filter(h => !h.private).forEach(h => add(handlerItem(entry.script, h)));
+            }
+        }
+
+        dictionaryEntries()
+            .filter(entry => entry.type === "command" || entry.type === "function")
+            .forEach(entry => add(dictionaryItem(entry)));
+        return Array.from(items.values());
+    }
+}
+
+
+function variableItem(name: string, detail: string): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(name, detail === "constant" ? vscode.CompletionItemKind.Constant : vscode.CompletionItemKind.Variable);
+    item.detail = detail;
+    return item;
+}
+
+function handlerItem(script: Script, handler: Handler): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(handler.name, HandlerCompletionKinds[handler.kind]);
+    item.detail = handlerSignature(handler);
+    item.documentation = handlerMarkdown(script, handler);
+    return item;
+}
+
+function dictionaryItem(entry: DictionaryEntry): vscode.CompletionItem {
+    const kind = entry.type === "property" ? vscode.CompletionItemKind.Property
+        : entry.type === "function" ? vscode.CompletionItemKind.Function
+        : vscode.CompletionItemKind.Keyword;
+    const item = new vscode.CompletionItem(entry.name, kind);
+    item.detail = entry.syntax[0];
+    item.documentation = dictionaryMarkdown(entry);
+    return item;
+}
@@ -1,55 +1,34 @@
 import * as vscode from "vscode";
-import * as cp from "child_process";
-import * as path from 'path';
+import { lookupName, parseDocument } from "./LCSparser";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
 
 
 
 
 export class LivecodescriptDefinitionProvider implements vscode.DefinitionProvider {
 
-    provideDefinition(origDocument, position, token) {
-        const word = origDocument.getText(origDocument.getWordRangeAtPosition(position));
-        
-        const defPattern = new RegExp(`(((\\s)*(private|on|command|function|setprop|getprop)+(\\s))|((\\s)*(global|local|constant)+(\\s)+.*))${word}(?:\\s|$)`, 'gim');
-        const localPattern = new RegExp(`(((\\s)*(private)+(\\s))|((\\s)*(local)+(\\s)+.*))${word}(?:\\s|$)`, 'gim');
-  
-        
-    
-        const json = origDocument.getText();
-        if (defPattern.test(json)) {  //Primero verificamos si el patron esta en el archivo (mas rapido)
-            for (var i = 0; i < origDocument.lineCount; i++) {
-                currentline = origDocument.lineAt(i);
-                if (defPattern.test(currentline.text)) {
-                    return new vscode.Location(vscode.Uri.file(origDocument.uri.fsPath), currentline.range.start);
-                }
-            }
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    async provideDefinition(origDocument: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location[] | undefined> {
+        const wordRange = origDocument.getWordRangeAtPosition(position);
+        if (!wordRange) {
+            return;
         }
-    
-    
-    
-        for (let document of vscode.workspace.textDocuments) {
-            //  if (origDocument==document) continue;
-            const json = document.getText();
-    
-            if (defPattern.test(json)) {  //Primero verificamos si el patron esta en el archivo (mas rapido)
-                for (var i = 0; i < document.lineCount; i++) {
-                    var currentline = document.lineAt(i);
-    
-                    if (defPattern.test(currentline.text)) {
-                        if (localPattern.test(currentline.text) && origDocument !== document) {
-                            return;
-                        } else {
-                            return new vscode.Location(vscode.Uri.file(document.uri.fsPath), currentline.range.start);
-                        }
-                    }
-                }
-            }
-    
+        const word = origDocument.getText(wordRange);
+
+        // Names visible from the position win over anything defined elsewhere
+        const definition = lookupName(parseDocument(origDocument), word, position);
+        if (definition) {
+            return [new vscode.Location(origDocument.uri, definition.range)];
         }
-    
-    
-    
+
+        // Other scripts only expose their public handlers and globals
+        await this.index.ready;
+        const locations = this.index.findDefinitions(word, "livecodescript")
+            .filter(location => location.uri.toString() !== origDocument.uri.toString());
+        return locations.length > 0 ? locations : undefined;
     }
-    
+
 
 }
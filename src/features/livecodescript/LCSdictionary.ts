@@ -0,0 +1,90 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+
+/*
+ * The LiveCode dictionary bundled with the extension in
+ * `dictionary/livecodescript.json`, generated from the `.lcdoc` files of the
+ * LiveCode sources with `tools/Dictionary.lc` (see CONTRIBUTING.md). Without
+ * it, hover, completion and signature help only know the workspace handlers.
+ */
+
+
+export type DictionaryEntryType = "command" | "function" | "property" | "message" | "keyword" | "constant" | "control structure";
+
+export interface DictionaryParameter {
+    name: string;
+    description: string;
+}
+
+export interface DictionaryEntry {
+    /** Entries made of several words, such as `lock screen`, use single spaces. */
+    name: string;
+    type: DictionaryEntryType;
+    syntax: string[];
+    summary: string;
+    parameters?: DictionaryParameter[];
+    returns?: string;
+    platforms: string[];
+    examples?: string[];
+}
+
+
+let entries: Map<string, DictionaryEntry[]> | undefined;
+
+function load(): Map<string, DictionaryEntry[]> {
+    if (!entries) {
+        entries = new Map();
+        try {
+            const file = path.resolve(__dirname, "../../../dictionary/livecodescript.json");
+            if (!fs.existsSync(file)) {
+                return entries;
+            }
+            const dictionary: { entries: DictionaryEntry[] } = JSON.parse(fs.readFileSync(file, "utf8"));
+            for (const entry of dictionary.entries) {
+                const key = entry.name.toLowerCase();
+                entries.set(key, [...(entries.get(key) ?? []), entry]);
+            }
+        } catch (error) {
+            console.error(`Could not load the LiveCode dictionary: ${error}`);
+        }
+    }
+    return entries;
+}
+
+
+export function dictionaryEntries(): DictionaryEntry[] {
+    return Array.from(load().values()).reduce((all, list) => all.concat(list), []);
+}
+
+/** Entries named `name`, case insensitively. Several words are separated by single spaces. */
+export function lookupDictionary(name: string): DictionaryEntry[] {
+    return load().get(name.toLowerCase()) ?? [];
+}
+
+
+export function dictionaryMarkdown(entry: DictionaryEntry): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendCodeblock(entry.syntax.join("\n"), "livecodescript");
+    markdown.appendMarkdown(`*${entry.type}* — ${entry.summary}\n\n`);
+
+    if (entry.parameters && entry.parameters.length > 0) {
+        markdown.appendMarkdown("**Parameters**\n\n");
+        for (const parameter of entry.parameters) {
+            markdown.appendMarkdown(`- \`${parameter.name}\` — ${parameter.description}\n`);
+        }
+        markdown.appendMarkdown("\n");
+    }
+    if (entry.returns) {
+        markdown.appendMarkdown(`**Returns** ${entry.returns}\n\n`);
+    }
+    if (entry.platforms.length > 0) {
+        markdown.appendMarkdown(`**Platforms** ${entry.platforms.join(", ")}\n\n`);
+    }
+    if (entry.examples && entry.examples.length > 0) {
+        markdown.appendMarkdown("**Examples**\n");
+        markdown.appendCodeblock(entry.examples.join("\n\n"), "livecodescript");
+    }
+    return markdown;
+}
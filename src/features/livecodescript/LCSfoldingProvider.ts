@@ -0,0 +1,37 @@
+import * as vscode from "vscode";
+import { parseDocument } from "./LCSparser";
+import { commentFoldingRanges, structureFoldingRange } from "../utils/folding";
+
+
+export class LivecodescriptFoldingRangeProvider implements vscode.FoldingRangeProvider {
+
+    public provideFoldingRanges(
+        document: vscode.TextDocument,
+        context: vscode.FoldingContext,
+        token: vscode.CancellationToken): vscode.FoldingRange[] {
+        const script = parseDocument(document);
+        const ranges: (vscode.FoldingRange | undefined)[] = [];
+
+        for (const handler of script.handlers) {
+            ranges.push(structureFoldingRange(handler.range, handler.end !== undefined));
+        }
+
+        for (const block of script.blocks) {
+            // `else`, `case` and `catch` sections fold on their own, a switch also folds as a whole
+            const starts = [block.range.start, ...block.branches.map(branch => branch.range.start)];
+            if (block.kind === "switch") {
+                ranges.push(structureFoldingRange(block.range, block.closed));
+                starts.shift();
+            }
+            starts.forEach((start, index) => {
+                const next = starts[index + 1];
+                ranges.push(next
+                    ? structureFoldingRange(new vscode.Range(start, next), true)
+                    : structureFoldingRange(new vscode.Range(start, block.range.end), block.closed));
+            });
+        }
+
+        ranges.push(...commentFoldingRanges(script.comments));
+        return ranges.filter((range): range is vscode.FoldingRange => range !== undefined);
+    }
+}
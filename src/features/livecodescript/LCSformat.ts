@@ -1,14 +1,24 @@
 import * as vscode from "vscode";
-import * as cp from "child_process";
-import * as path from 'path';
+import LivecodeWorker from "../utils/livecodeWorker";
+import { minimalEdits } from "../utils/textDiff";
+import { formatScript, formatterOptions } from "./LCSformatter";
+import { applyStyle, KeywordCase } from "./LCSstyle";
 
 
-const enum Setting {
-	LivecodeServerExecutablePath = 'livecodescript.validate.LivecodeServerExecutablePath',
-}
+export class LivecodescriptFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+
+    constructor(private worker: LivecodeWorker) {
+    }
 
+    public provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): Promise<vscode.TextEdit[]> {
+        let range = new vscode.Range(new vscode.Position(0, 0), document.lineAt(document.lineCount - 1).range.end);
+        return this.provideDocumentRangeFormattingEdits(document, range, options, token);
+    }
 
-export class LivecodescriptFormattingProvider implements vscode.DocumentRangeFormattingEditProvider {
     public async provideDocumentRangeFormattingEdits(
         document: vscode.TextDocument,
         range: vscode.Range,
@@ -16,32 +26,32 @@ export class LivecodescriptFormattingProvider implements vscode.DocumentRangeFor
         token: vscode.CancellationToken
     ): Promise<vscode.TextEdit[]> {
         
-        // if perltidy is not defined, then skip the formatting
         let config = vscode.workspace.getConfiguration('livecodescript');
-        let executable = config.get("LivecodeServerExecutablePath", "");
         let formatter = config.get("formatter.enable");
 
-        if (!vscode.workspace.getConfiguration('livecodescript').get("LivecodeServerExecutablePath") || !formatter) {
+        if (!formatter) {
             return [];
         }
 
-        return new Promise<vscode.TextEdit[]>((resolve, reject) => {
-            if (range.start.line !== range.end.line) {
-                range = range.with(
-                    range.start.with(range.start.line, 0),
-                    range.end.with(range.end.line, Number.MAX_VALUE)
-                );
-            }
+        if (range.start.line !== range.end.line) {
+            range = range.with(
+                range.start.with(range.start.line, 0),
+                range.end.with(range.end.line, Number.MAX_VALUE)
+            );
+        }
+
+        // Without a LiveCode server, format in-process
+        if (!config.get("LivecodeServerExecutablePath")) {
+            return this.formatInProcess(document, range);
+        }
 
+        return new Promise<vscode.TextEdit[]>((resolve, reject) => {
             let config = vscode.workspace.getConfiguration('livecodescript');
             let executable = config.get("LivecodeServerExecutablePath", "");
             let indentation = config.get("indentation", "");
             let indentationSize = config.get("indentationSize", "");
 
             let args: string[] = [
-                path
-                    .resolve(__dirname, "../../../tools/Formatter.lc")
-                    .replace(/[\\]+/g, "/"),
                 "-scope=.source.livecodescript",
                 `-indentation=${indentation}`,
                 `-indentationSize=${indentationSize}`,
@@ -54,47 +64,17 @@ export class LivecodescriptFormattingProvider implements vscode.DocumentRangeFor
             }*/
 
             let text = document.getText(range);
-            let child = cp.spawn(executable, args, {
-                cwd: vscode.workspace.rootPath
-            });
-            child.stdin.write(text);
-            child.stdin.end();
-
-            let stdout = "";
-            child.stdout.on("data", (out: Buffer) => {
-                stdout += out.toString();
-            });
-
-            let stderr = "";
-            child.stderr.on("data", (out: Buffer) => {
-                stderr += out.toString();
-            });
-
-            let error: Error;
-            child.on("error", (err: Error) => {
-                error = err;
-            });
-
-            child.on("close", (code, signal) => {
-                let message = "";
-
-                if (error) {
-                    message = error.message;
-                } else if (stderr) {
-                    message = stderr;
-                } else if (code !== 0) {
-                    message = stdout;
+            this.worker.request(executable, args, text, token).then(stdout => {
+                if (!text.endsWith("\n")) {
+                    stdout = stdout.slice(0, -1); // remove trailing newline
                 }
-
-                if (code !== 0) {
-                    message = message.trim();
-                    let formatted = `Could not format, code: ${code}, error: ${message}`;
-                    reject(formatted);
+                resolve(minimalEdits(range, text, this.style(stdout)));
+            }, (error: any) => {
+                if (error.code) {
+                    // LiveCode could not be started
+                    resolve(this.formatInProcess(document, range));
                 } else {
-                    if (!text.endsWith("\n")) {
-                        stdout = stdout.slice(0, -1); // remove trailing newline
-                    }
-                    resolve([new vscode.TextEdit(range, stdout)]);
+                    reject(`Could not format, error: ${error.message}`);
                 }
             });
         }).catch(reason => {
@@ -102,4 +82,28 @@ export class LivecodescriptFormattingProvider implements vscode.DocumentRangeFor
             return [];
         });
     }
+
+    private formatInProcess(document: vscode.TextDocument, range: vscode.Range): vscode.TextEdit[] {
+        let config = vscode.workspace.getConfiguration('livecodescript');
+        let text = document.getText(range);
+        let formatted = formatScript(text, formatterOptions(config.get("indentation", "tab"), config.get("indentationSize", "1")));
+        if (!text.endsWith("\n")) {
+            formatted = formatted.slice(0, -1); // remove trailing newline
+        }
+        return minimalEdits(range, text, this.style(formatted));
+    }
+
+    /** Applies the `livecodescript.formatter.*` style settings to formatted text. */
+    private style(text: string): string {
+        let config = vscode.workspace.getConfiguration('livecodescript');
+        return applyStyle(text, {
+            keywordCase: config.get<KeywordCase>("formatter.keywordCase", "preserve"),
+            collapseBlankLines: config.get("formatter.collapseBlankLines", false),
+            trimTrailingWhitespace: config.get("formatter.trimTrailingWhitespace", false),
+            continuationIndent: config.get("formatter.continuationIndent", 0),
+            useTabs: config.get("indentation", "tab") === "tab",
+            spaceAroundOperators: config.get("formatter.spaceAroundOperators", false),
+            convertHashComments: config.get("formatter.convertHashComments", false),
+        });
+    }
 }
@@ -0,0 +1,221 @@
+/*
+ * An in-process port of the indentation rules of `tools/Formatter.lc`
+ * (`textFormatAsScript` and `_indentation`), used when no LiveCode server is
+ * available. It indents handlers, control structures, `switch` cases,
+ * `\` continuation lines and the middle lines of block comments the same way.
+ *
+ * It does not port the `pPretty` rules of `_lineClearExtraSpaces`, which
+ * `Formatter.lc` always applies: those depend on the tokens of the engine and
+ * on `the commandNames` to tell whether a `(` may be glued to the word before
+ * it. Where `Formatter.lc` collapses runs of spaces, removes the spaces
+ * before `,`, `;`, `)` and `]`, glues `(` to handler names and adds a space
+ * after `/*`, the port leaves the spacing inside lines as it is and only
+ * trims the start and end of lines.
+ */
+
+
+export interface FormatterOptions {
+    /** Indent with tabs, one per level, instead of `indentationSize` spaces. */
+    useTabs: boolean;
+    indentationSize: number;
+}
+
+interface IndentationState {
+    /** Current nesting level, 1 inside a handler. */
+    level: number;
+    /** Name of the handler followed by the structure open at every level. */
+    structures: string[];
+    /** `if` statements whose `then` is still to come on a later line. */
+    pendingIfs: number;
+    /** Width of the indentation of the line being formatted, in characters. */
+    indent: number;
+    /** Whether the line ends with a `\` continuation. */
+    continued: boolean;
+}
+
+const HandlerKeywords = ["on", "command", "function", "getprop", "setprop", "after", "before"];
+const CaseKeywords = ["case", "default"];
+
+
+/**
+ * Options of the `livecodescript.indentation` and `livecodescript.indentationSize`
+ * settings, as `Formatter.lc` reads its `-indentation` and `-indentationSize` arguments.
+ */
+export function formatterOptions(indentation: string, indentationSize: string | number): FormatterOptions {
+    return { useTabs: indentation === "tab", indentationSize: Number(indentationSize) };
+}
+
+/** Formats a script; every line of the result ends with a line break, as with `Formatter.lc`. */
+export function formatScript(text: string, options: FormatterOptions): string {
+    if (text.trim() === "") {
+        return "";
+    }
+    const size = options.useTabs ? 1 : (Number.isInteger(options.indentationSize) && options.indentationSize >= 1 ? options.indentationSize : 2);
+    const character = options.useTabs ? "\t" : " ";
+    const elseIndent = Math.trunc(size / 2);
+
+    const lines = text.split(/\r?\n/);
+    if (text.endsWith("\n")) {
+        lines.pop();
+    }
+
+    const state: IndentationState = { level: 0, structures: [], pendingIfs: 0, indent: 0, continued: false };
+    let continuation = false;
+    let inComment = false;
+    let result = "";
+
+    for (const original of lines) {
+        let line = original.trim();
+        if (line === "") {
+            result += "\n";
+            continue;
+        }
+
+        if (inComment) {
+            // Middle and closing lines of a block comment do not change the indentation
+            inComment = !line.includes("*/");
+            line = " " + (line.startsWith("*") ? line : "* " + line);
+            indentLine("", state, size, elseIndent);
+        } else {
+            const parts = splitLine(line);
+            inComment = parts.opensComment;
+            for (const statement of parts.statements) {
+                indentLine(statement, state, size, elseIndent);
+            }
+        }
+
+        if (continuation) {
+            state.indent += size;
+        }
+        continuation = state.continued;
+        result += character.repeat(state.indent) + line + "\n";
+    }
+
+    // The first line of a `<?livecode` script file is kept as it is
+    if (lines[0].startsWith("<?")) {
+        result = lines[0] + result.substring(result.indexOf("\n"));
+    }
+    return result;
+}
+
+
+/** Updates the state for one statement and sets the indentation of its line. */
+function indentLine(statement: string, state: IndentationState, size: number, elseIndent: number): void {
+    const words = statement.split(/\s+/).filter(word => word !== "");
+    const first = (words[0] ?? "").toLowerCase();
+    const name = firstToken(words[first === "private" ? 2 : 1]).toLowerCase();
+    state.continued = statement.endsWith("\\");
+    const endsWithThen = /(?:^|\s)then\s*\\?$/i.test(statement);
+
+    if (state.level <= 0) {
+        state.level = 0;
+        state.indent = 0;
+    } else {
+        state.indent = size * state.level;
+    }
+
+    const top = () => (state.structures[state.level - 1] ?? "").toLowerCase();
+    const last = () => (state.structures[state.structures.length - 1] ?? "").toLowerCase();
+    const open = (structure: string) => {
+        state.level++;
+        state.structures[state.level - 1] = structure;
+    };
+    const close = () => {
+        state.level--;
+        state.structures.pop();
+    };
+    const outdent = () => {
+        state.indent = Math.max(state.indent - size, 0);
+    };
+
+    if (HandlerKeywords.includes(first) || first === "private") {
+        state.level = 1;
+        state.structures = [name];
+    } else if (first === "if") {
+        if (endsWithThen) {
+            open("if");
+        } else {
+            state.pendingIfs = state.pendingIfs < 1 ? 1 : state.pendingIfs + 1;
+        }
+    } else if (first === "repeat" || first === "try" || first === "switch") {
+        open(first);
+    } else if (CaseKeywords.includes(first)) {
+        if (!CaseKeywords.includes(top())) {
+            open(first);
+        } else {
+            outdent();
+        }
+    } else if (first === "end") {
+        if (name === top()) {
+            if (last() === "if") {
+                state.pendingIfs--;
+            }
+            close();
+            outdent();
+        } else if (name === "switch" && state.structures.some(structure => structure.toLowerCase() === "switch")) {
+            for (let count = state.level; count > 0 && [...CaseKeywords, "switch"].includes(top()); count--) {
+                close();
+                outdent();
+            }
+        }
+    } else if (first === "break") {
+        if ([...CaseKeywords, "switch"].includes(top())) {
+            close();
+        }
+    } else if (first === "else" && last() === "if") {
+        outdent();
+        state.indent += elseIndent;
+        // `else statement` on one line ends the `if`
+        if (name !== "" && name !== "if") {
+            close();
+        }
+    } else if (endsWithThen && state.pendingIfs > 0) {
+        // `then` on a line of its own, or at the end of a continued condition
+        open("if");
+    } else if ((first === "catch" || first === "finally") && last() === "try") {
+        outdent();
+    }
+}
+
+
+/**
+ * Splits a line into its `;` separated statements, leaving out comments, and
+ * tells whether it opens a block comment that goes on on the next lines.
+ */
+function splitLine(line: string): { statements: string[], opensComment: boolean } {
+    const statements: string[] = [];
+    let statement = "";
+    let opensComment = false;
+
+    for (let index = 0; index < line.length; index++) {
+        const char = line[index];
+        if (char === "\"") {
+            const close = line.indexOf("\"", index + 1);
+            const end = close < 0 ? line.length : close + 1;
+            statement += line.substring(index, end);
+            index = end - 1;
+        } else if (line.startsWith("--", index) || line.startsWith("//", index) || char === "#") {
+            break;
+        } else if (line.startsWith("/*", index)) {
+            const close = line.indexOf("*/", index + 2);
+            if (close < 0) {
+                opensComment = true;
+                break;
+            }
+            statement += " ";
+            index = close + 1;
+        } else if (char === ";") {
+            statements.push(statement.trim());
+            statement = "";
+        } else {
+            statement += char;
+        }
+    }
+    statements.push(statement.trim());
+    return { statements, opensComment };
+}
+
+/** The first token of a word, `foo` for `foo(pA)`. */
+function firstToken(word: string | undefined): string {
+    return /^[^\s()[\],;"]*/.exec(word ?? "")![0];
+}
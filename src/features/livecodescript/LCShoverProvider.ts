@@ -0,0 +1,95 @@
+import * as vscode from "vscode";
+import { findHandlers, Handler, handlerComment, handlerSignature, isWord, lookupName, parseDocument, Script, Token, TokenKind } from "./LCSparser";
+import { DictionaryEntry, dictionaryMarkdown, lookupDictionary } from "./LCSdictionary";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
+
+
+export class LivecodescriptHoverProvider implements vscode.HoverProvider {
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    public async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        const script = parseDocument(document);
+        const statement = script.statements.find(s => s.range.contains(position));
+        const index = statement ? statement.tokens.findIndex(t => t.range.contains(position)) : -1;
+        if (!statement || index < 0 || statement.tokens[index].kind !== TokenKind.Word) {
+            return;
+        }
+        const tokens = statement.tokens;
+        const word = tokens[index];
+
+        const definition = lookupName(script, word.text, position);
+        if (definition && definition.kind !== "handler") {
+            return;
+        }
+        if (definition?.handler) {
+            return new vscode.Hover(handlerHover(script, definition.handler), word.range);
+        }
+
+        // Phrases such as `lock screen` win over their single words
+        const phrases = [[tokens[index - 1], word], [word, tokens[index + 1]]];
+        for (const phrase of phrases) {
+            const entries = phrase.every(t => isWord(t)) ? lookupDictionary(phrase.map(t => t.text).join(" ")) : [];
+            if (entries.length > 0) {
+                return new vscode.Hover(dictionaryMarkdown(entries[0]), new vscode.Range(phrase[0].range.start, phrase[1].range.end));
+            }
+        }
+
+        const entries = lookupDictionary(word.text);
+        if (entries.length > 0) {
+            return new vscode.Hover(dictionaryMarkdown(bestEntry(entries, tokens, index)), word.range);
+        }
+
+        // Public handlers of the other scripts in the workspace
+        await this.index.ready;
+        for (const entry of this.index.scripts()) {
+            const handler = findHandlers(entry.script, word.text).find(h => !h.private);
+            if (handler && entry.uri.toString() !== document.uri.toString()) {
+                return new vscode.Hover(handlerHover(entry.script, handler), word.range);
+            }
+        }
+        return undefined;
+    }
+}
+
+
+/** Signature of a user handler followed by the comment written above it. */
+export function handlerMarkdown(script: Script, handler: Handler): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendCodeblock(handlerSignature(handler), "livecodescript");
+    const comment = handlerComment(script, handler);
+    if (comment) {
+        markdown.appendText(comment);
+    }
+    return markdown;
+}
+
+function handlerHover(script: Script, handler: Handler): vscode.MarkdownString[] {
+    // Handlers of built-in messages also get the dictionary entry
+    const contents = [handlerMarkdown(script, handler)];
+    const message = lookupDictionary(handler.name).find(entry => entry.type === "message");
+    if (message && ["on", "before", "after"].indexOf(handler.kind) >= 0) {
+        contents.push(dictionaryMarkdown(message));
+    }
+    return contents;
+}
+
+/**
+ * Picks the entry matching how the word is used when the dictionary has
+ * several, e.g. the `date` function or a `date` keyword.
+ */
+function bestEntry(entries: DictionaryEntry[], tokens: Token[], index: number): DictionaryEntry {
+    const preferred: DictionaryEntry["type"][] = [];
+    if (isWord(tokens[index - 1], "the")) {
+        preferred.push("property", "function");
+    } else if (tokens[index + 1]?.text === "(") {
+        preferred.push("function");
+    } else if (index === 0) {
+        preferred.push("command", "control structure", "message");
+    }
+    return entries.find(entry => preferred.indexOf(entry.type) >= 0) ?? entries[0];
+}
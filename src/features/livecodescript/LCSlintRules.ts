@@ -0,0 +1,219 @@
+import * as vscode from "vscode";
+import { ControlBlock, Handler, HandlerKind, isWord, sameName, Script, Statement, TokenKind } from "./LCSparser";
+import { Severities } from "../utils/lintRecords";
+import { RuleSeverity } from "../utils/lintSettings";
+
+
+type Report = (range: vscode.Range, message: string, tags?: vscode.DiagnosticTag[]) => void;
+
+interface LintRule {
+    id: string;
+    /** Default severity, overridden by the `livecodescript.lint.rules` setting. */
+    severity: RuleSeverity;
+    check(script: Script, report: Report): void;
+}
+
+
+/** Words that leave the current handler, or the current loop with `exit repeat` and `next repeat`. */
+const JumpKeywords = ["exit", "return", "pass", "throw"];
+/** Statements that are reached again after a jump in the lines above. */
+const ReachableKeywords = ["end", "else", "case", "default", "catch", "finally", "break"];
+
+/** Handler kinds that share a name space: a command and a function may have the same name. */
+const HandlerNamespaces: { [kind in HandlerKind]: string } = {
+    on: "command",
+    command: "command",
+    function: "function",
+    getprop: "getprop",
+    setprop: "setprop",
+    before: "before",
+    after: "after",
+};
+
+
+/**
+ * Rules checked on the parsed script, so that they work without a LiveCode
+ * server. Their diagnostics are merged with those of `tools/Linter.lc`.
+ */
+export const LintRules: LintRule[] = [
+    {
+        id: "mismatched-end",
+        severity: "error",
+        check(script, report) {
+            for (const handler of script.handlers) {
+                const name = handler.end?.tokens[1];
+                if (handler.end && !(name && sameName(name.text, handler.name))) {
+                    report(handler.end.range, `Handler \`${handler.name}\` must be closed with \`end ${handler.name}\``);
+                }
+            }
+            for (const end of script.strayEnds) {
+                report(end.range, `\`${statementText(end)}\` does not close anything`);
+            }
+        },
+    },
+    {
+        id: "unclosed-block",
+        severity: "error",
+        check(script, report) {
+            for (const handler of script.handlers) {
+                if (!handler.end) {
+                    report(handler.nameRange, `Handler \`${handler.name}\` is never closed with \`end ${handler.name}\``);
+                }
+            }
+            for (const block of script.blocks) {
+                if (!block.closed) {
+                    report(new vscode.Range(block.range.start, block.range.start.translate(0, block.kind.length)), `\`${block.kind}\` is never closed with \`end ${block.kind}\``);
+                }
+            }
+        },
+    },
+    {
+        id: "duplicate-handler",
+        severity: "warning",
+        check(script, report) {
+            const seen = new Map<string, Handler>();
+            for (const handler of script.handlers) {
+                const key = `${HandlerNamespaces[handler.kind]} ${handler.name.toLowerCase()}`;
+                const first = seen.get(key);
+                if (first) {
+                    report(handler.nameRange, `Handler \`${handler.name}\` is already defined on line ${first.nameRange.start.line + 1}`);
+                } else {
+                    seen.set(key, handler);
+                }
+            }
+        },
+    },
+    {
+        id: "unused-local",
+        severity: "warning",
+        check(script, report) {
+            for (const declaration of script.declarations.filter(d => d.kind === "local")) {
+                if (!isUsed(declaration.name, script.statements, declaration.range)) {
+                    report(declaration.range, `Script local \`${declaration.name}\` is never used`, [vscode.DiagnosticTag.Unnecessary]);
+                }
+            }
+            for (const handler of script.handlers) {
+                for (const declaration of handler.declarations.filter(d => d.kind === "local")) {
+                    if (!isUsed(declaration.name, handler.statements, declaration.range)) {
+                        report(declaration.range, `Local \`${declaration.name}\` is never used`, [vscode.DiagnosticTag.Unnecessary]);
+                    }
+                }
+            }
+        },
+    },
+    {
+        id: "unused-parameter",
+        severity: "hint",
+        check(script, report) {
+            for (const handler of script.handlers) {
+                // Parameters can also be read with param() and the params
+                if (isUsed("param", handler.statements) || isUsed("params", handler.statements)) {
+                    continue;
+                }
+                for (const parameter of handler.parameters) {
+                    if (!isUsed(parameter.name, handler.statements)) {
+                        report(parameter.range, `Parameter \`${parameter.name}\` is never used`, [vscode.DiagnosticTag.Unnecessary]);
+                    }
+                }
+            }
+        },
+    },
+    {
+        id: "unreachable-code",
+        severity: "warning",
+        check(script, report) {
+            for (const handler of script.handlers) {
+                const statements = handler.statements;
+                for (let index = 0; index < statements.length; index++) {
+                    const jump = statements[index];
+                    if (!isJump(jump)) {
+                        continue;
+                    }
+                    const first = statements[index + 1];
+                    let last: Statement | undefined;
+                    while (index + 1 < statements.length && isInside(statements[index + 1], jump.block)) {
+                        const next = statements[index + 1];
+                        if (next.block === jump.block && ReachableKeywords.some(keyword => isWord(next.tokens[0], keyword))) {
+                            break;
+                        }
+                        last = next;
+                        index++;
+                    }
+                    if (last) {
+                        report(new vscode.Range(first.range.start, last.range.end), "Unreachable code", [vscode.DiagnosticTag.Unnecessary]);
+                    }
+                }
+            }
+        },
+    },
+    {
+        id: "exit-repeat-outside-loop",
+        severity: "error",
+        check(script, report) {
+            for (const statement of script.statements) {
+                if (isLoopJump(statement) && !enclosingLoop(statement)) {
+                    report(statement.range, `\`${statementText(statement)}\` is not inside a \`repeat\` loop`);
+                }
+            }
+        },
+    },
+];
+
+
+/** Diagnostics of every rule at its default severity, see `applyLintSettings`. */
+export function lintScript(script: Script): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const rule of LintRules) {
+        rule.check(script, (range, message, tags) => {
+            const diagnostic = new vscode.Diagnostic(range, message, Severities[rule.severity] ?? vscode.DiagnosticSeverity.Warning);
+            diagnostic.code = rule.id;
+            diagnostic.source = "livecodescript";
+            diagnostic.tags = tags;
+            diagnostics.push(diagnostic);
+        });
+    }
+    return diagnostics;
+}
+
+
+/** Whether a word other than the declaration itself refers to `name`. */
+function isUsed(name: string, statements: Statement[], declaration?: vscode.Range): boolean {
+    return statements.some(statement => statement.tokens.some(token =>
+        token.kind === TokenKind.Word && sameName(token.text, name) && !(declaration && token.range.isEqual(declaration))));
+}
+
+function isJump(statement: Statement): boolean {
+    if (isLoopJump(statement)) {
+        // Outside of a loop it is reported by exit-repeat-outside-loop instead
+        return enclosingLoop(statement) !== undefined;
+    }
+    return JumpKeywords.some(keyword => isWord(statement.tokens[0], keyword));
+}
+
+function isLoopJump(statement: Statement): boolean {
+    return (isWord(statement.tokens[0], "exit") || isWord(statement.tokens[0], "next")) && isWord(statement.tokens[1], "repeat");
+}
+
+function enclosingLoop(statement: Statement): ControlBlock | undefined {
+    let block = statement.block;
+    while (block && block.kind !== "repeat") {
+        block = block.parent;
+    }
+    return block;
+}
+
+function isInside(statement: Statement, block: ControlBlock | undefined): boolean {
+    if (!block) {
+        return true;
+    }
+    for (let parent = statement.block; parent; parent = parent.parent) {
+        if (parent === block) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function statementText(statement: Statement): string {
+    return statement.tokens.map(token => token.text).join(" ");
+}
@@ -0,0 +1,87 @@
+import * as vscode from "vscode";
+import { isWord, parseDocument, sameName, Script, Statement } from "./LCSparser";
+import { endsWithClosingKeyword, indentationOf, indentUnit, reindent } from "../utils/onTypeFormatting";
+
+
+/** Lines that open a block when they are the whole statement. */
+const OpeningKeywords = ["repeat", "switch", "try", "case", "default", "catch", "finally"];
+
+
+/**
+ * Re-indents `else` and `end` lines to the structure they belong to once
+ * they are typed, and indents the line after a line that opens a block
+ * when Enter is pressed.
+ */
+export class LivecodescriptOnTypeFormattingProvider implements vscode.OnTypeFormattingEditProvider {
+
+    public provideOnTypeFormattingEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        ch: string,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken): vscode.TextEdit[] {
+        if (ch !== "\n" && !endsWithClosingKeyword(document, position)) {
+            return [];
+        }
+        const script = parseDocument(document);
+
+        if (ch !== "\n") {
+            const statement = script.statements.find(s => s.range.start.line === position.line);
+            const indentation = statement && closingIndentation(document, script, statement, options);
+            return indentation !== undefined ? reindent(document, position.line, indentation) : [];
+        }
+
+        const previous = script.statements.find(s => s.range.end.line === position.line - 1);
+        if (!previous) {
+            return [];
+        }
+        // The line just left may be an `end handler` line, which has no trigger character of its own
+        const closing = closingIndentation(document, script, previous, options);
+        const edits = closing !== undefined ? reindent(document, previous.range.start.line, closing) : [];
+        if (opensBlock(script, previous)) {
+            const base = closing ?? indentationOf(document, previous.range.start.line);
+            edits.push(...reindent(document, position.line, base + indentUnit(options)));
+        }
+        return edits;
+    }
+}
+
+
+/** Indentation of an `end` or branch line: that of the line that opened its structure. */
+function closingIndentation(document: vscode.TextDocument, script: Script, statement: Statement, options: vscode.FormattingOptions): string | undefined {
+    const first = statement.tokens[0];
+    if (isWord(first, "end")) {
+        const handler = script.handlers.find(h => h.end === statement);
+        if (handler) {
+            const name = statement.tokens[1];
+            return name && sameName(name.text, handler.name) ? indentationOf(document, handler.header.range.start.line) : undefined;
+        }
+        const block = statement.block;
+        if (block && block.closed && block.range.end.isEqual(statement.range.end)) {
+            return indentationOf(document, block.range.start.line);
+        }
+        return undefined;
+    }
+
+    const block = statement.block;
+    if (block && block.branches.includes(statement)) {
+        const opening = indentationOf(document, block.range.start.line);
+        // Cases are indented inside their switch
+        return isWord(first, "case") || isWord(first, "default") ? opening + indentUnit(options) : opening;
+    }
+    return undefined;
+}
+
+function opensBlock(script: Script, statement: Statement): boolean {
+    const tokens = statement.tokens;
+    if (script.handlers.some(handler => handler.header === statement)) {
+        return true;
+    }
+    if (isWord(tokens[tokens.length - 1], "then")) {
+        return true;
+    }
+    if (isWord(tokens[0], "else")) {
+        return tokens.length === 1;
+    }
+    return OpeningKeywords.some(keyword => isWord(tokens[0], keyword));
+}
@@ -0,0 +1,439 @@
+import * as vscode from "vscode";
+import { Comment, groupStatements, isWord, sameName, Token, TokenKind, tokenize, unquote } from "../utils/tokenizer";
+
+
+/*
+ * A small, error tolerant parser for LiveCode Script.
+ *
+ * The parser works in three passes: the text is split into tokens line by
+ * line (comments and strings are recognised here), the tokens are grouped
+ * into statements (joining `\` continuation lines and splitting on `;`) and
+ * finally the statements are walked to build handlers, declarations and
+ * control structures. It never throws: unclosed or mismatched structures are
+ * recorded on the nodes so that features can report them.
+ */
+
+
+export { Comment, Token, TokenKind } from "../utils/tokenizer";
+
+export interface Statement {
+    tokens: Token[];
+    range: vscode.Range;
+    handler?: Handler;
+    /** Innermost control structure the statement belongs to. */
+    block?: ControlBlock;
+}
+
+export type ControlKind = "if" | "repeat" | "switch" | "try";
+
+export interface ControlBlock {
+    kind: ControlKind;
+    range: vscode.Range;
+    closed: boolean;
+    /** `else`, `case`, `default`, `catch` and `finally` lines. */
+    branches: Statement[];
+    parent?: ControlBlock;
+    handler?: Handler;
+}
+
+export type HandlerKind = "on" | "command" | "function" | "getprop" | "setprop" | "before" | "after";
+
+export interface Parameter {
+    name: string;
+    byReference: boolean;
+    range: vscode.Range;
+}
+
+export type DeclarationKind = "local" | "global" | "constant";
+
+export interface Declaration {
+    kind: DeclarationKind;
+    name: string;
+    range: vscode.Range;
+    statement: Statement;
+    handler?: Handler;
+}
+
+export interface Handler {
+    kind: HandlerKind;
+    name: string;
+    private: boolean;
+    nameRange: vscode.Range;
+    range: vscode.Range;
+    header: Statement;
+    parameters: Parameter[];
+    declarations: Declaration[];
+    statements: Statement[];
+    blocks: ControlBlock[];
+    /** The `end name` statement, missing when the handler is never closed. */
+    end?: Statement;
+}
+
+export interface Script {
+    /** Stack name of a script only stack (`script "name"`). */
+    name?: string;
+    handlers: Handler[];
+    /** Script locals, globals and constants declared outside of handlers. */
+    declarations: Declaration[];
+    comments: Comment[];
+    strings: Token[];
+    statements: Statement[];
+    blocks: ControlBlock[];
+    /** `end` statements that do not close anything. */
+    strayEnds: Statement[];
+}
+
+export interface Definition {
+    kind: "parameter" | DeclarationKind | "handler";
+    name: string;
+    range: vscode.Range;
+    handler?: Handler;
+}
+
+
+export const HandlerKeywords: HandlerKind[] = ["on", "command", "function", "getprop", "setprop", "before", "after"];
+export const ControlKeywords: ControlKind[] = ["if", "repeat", "switch", "try"];
+const BranchKeywords = ["else", "case", "default", "catch", "finally"];
+
+/** Words that structure a script, on top of the handler and control keywords. */
+export const ScriptKeywords = [
+    ...HandlerKeywords, ...ControlKeywords,
+    "end", "then", "else", "case", "default", "break", "catch", "finally", "private",
+    "local", "global", "constant", "return", "exit", "pass", "next", "forever", "the",
+];
+
+export { isIdentifier, isWord, sameName, unquote } from "../utils/tokenizer";
+
+
+export function parseScript(text: string): Script {
+    const script: Script = {
+        handlers: [],
+        declarations: [],
+        comments: [],
+        strings: [],
+        statements: [],
+        blocks: [],
+        strayEnds: [],
+    };
+
+    const tokens = tokenize(text, { hashComments: true, continuations: true, markup: true });
+    script.comments = tokens.comments;
+    script.strings = tokens.strings;
+    buildStructure(script, groupStatements(tokens.lines));
+    return script;
+}
+
+
+const cache = new WeakMap<vscode.TextDocument, { version: number, script: Script }>();
+
+/**
+ * Returns the parsed script of a document. The result is cached for the
+ * current document version so that every provider shares the same tree.
+ */
+export function parseDocument(document: vscode.TextDocument): Script {
+    let entry = cache.get(document);
+    if (!entry || entry.version !== document.version) {
+        entry = { version: document.version, script: parseScript(document.getText()) };
+        cache.set(document, entry);
+    }
+    return entry.script;
+}
+
+
+export function handlerAt(script: Script, position: vscode.Position): Handler | undefined {
+    return script.handlers.find(handler => handler.range.contains(position));
+}
+
+export function findHandlers(script: Script, name: string): Handler[] {
+    return script.handlers.filter(handler => sameName(handler.name, name));
+}
+
+/**
+ * Resolves a name the way LiveCode does: parameters and handler locals
+ * first, then script locals, globals and constants, then handlers.
+ * Without a position only script level names are considered.
+ */
+export function lookupName(script: Script, name: string, position?: vscode.Position): Definition | undefined {
+    const handler = position ? handlerAt(script, position) : undefined;
+    if (handler) {
+        const parameter = handler.parameters.find(p => sameName(p.name, name));
+        if (parameter) {
+            return { kind: "parameter", name: parameter.name, range: parameter.range, handler };
+        }
+        const declaration = handler.declarations.find(d => sameName(d.name, name));
+        if (declaration) {
+            return { kind: declaration.kind, name: declaration.name, range: declaration.range, handler };
+        }
+    }
+
+    const declaration = script.declarations.find(d => sameName(d.name, name));
+    if (declaration) {
+        return { kind: declaration.kind, name: declaration.name, range: declaration.range };
+    }
+
+    const target = findHandlers(script, name)[0];
+    if (target) {
+        return { kind: "handler", name: target.name, range: target.nameRange, handler: target };
+    }
+    return undefined;
+}
+
+
+/** The handler header without comments, e.g. `private command sortList @pList, pKey`. */
+export function handlerSignature(handler: Handler): string {
+    const parameters = handler.parameters.map(p => (p.byReference ? "@" : "") + p.name).join(", ");
+    return `${handler.private ? "private " : ""}${handler.kind} ${handler.name}${parameters ? " " + parameters : ""}`;
+}
+
+/**
+ * Text of the comment written directly above a handler, without the comment
+ * markers: either a block comment or a run of whole line comments.
+ */
+export function handlerComment(script: Script, handler: Handler): string | undefined {
+    const ownLine = (comment: Comment) => !script.statements.some(s => s.range.start.line <= comment.range.start.line && s.range.end.line >= comment.range.start.line);
+    const lines: string[] = [];
+    let line = handler.header.range.start.line - 1;
+
+    for (let i = script.comments.length - 1; i >= 0; i--) {
+        const comment = script.comments[i];
+        if (comment.range.end.line > line) {
+            continue;
+        }
+        if (comment.range.end.line < line || !ownLine(comment)) {
+            break;
+        }
+        if (comment.block) {
+            if (lines.length === 0) {
+                lines.push(...comment.text.replace(/^\/\*+/, "").replace(/\*+\/$/, "").split("\n").map(text => text.replace(/^\s*\*? ?/, "")));
+            }
+            break;
+        }
+        lines.unshift(comment.text.replace(/^(--|\/\/|#)\s?/, ""));
+        line--;
+    }
+
+    // Drop ruler lines such as `-----` around the text
+    const isRuler = (text: string) => /^[-*#\/=\s]*$/.test(text);
+    while (lines.length > 0 && isRuler(lines[0])) {
+        lines.shift();
+    }
+    while (lines.length > 0 && isRuler(lines[lines.length - 1])) {
+        lines.pop();
+    }
+    return lines.length > 0 ? lines.map(text => text.replace(/\s+$/, "")).join("\n") : undefined;
+}
+
+
+function buildStructure(script: Script, statements: Statement[]): void {
+    let handler: Handler | undefined;
+    let block: ControlBlock | undefined;
+    let pendingIf: Statement | undefined;
+    let singleLineIf: Statement | undefined;
+
+    const openBlock = (kind: ControlKind, start: Statement) => {
+        const opened: ControlBlock = {
+            kind,
+            range: start.range,
+            closed: false,
+            branches: [],
+            parent: block,
+            handler,
+        };
+        script.blocks.push(opened);
+        handler?.blocks.push(opened);
+        block = opened;
+    };
+
+    const closeHandler = (end?: Statement) => {
+        if (!handler) {
+            return;
+        }
+        block = undefined;
+        handler.end = end;
+        const last = end ?? handler.statements[handler.statements.length - 1] ?? handler.header;
+        handler.range = new vscode.Range(handler.header.range.start, last.range.end);
+        handler = undefined;
+    };
+
+    for (const statement of statements) {
+        script.statements.push(statement);
+        const tokens = statement.tokens;
+        const first = isWord(tokens[0]) ? tokens[0].text.toLowerCase() : "";
+        const previousSingleLineIf = singleLineIf;
+        const previousPendingIf = pendingIf;
+        singleLineIf = undefined;
+        pendingIf = undefined;
+
+        const header = parseHandlerHeader(statement);
+        if (header) {
+            closeHandler();
+            handler = header;
+            script.handlers.push(handler);
+            continue;
+        }
+
+        if (first === "local" || first === "global" || first === "constant") {
+            const declarations = parseDeclarations(first, statement, handler);
+            (handler ? handler.declarations : script.declarations).push(...declarations);
+        }
+
+        if (!handler) {
+            if (first === "script" && script.statements.length === 1 && tokens[1]?.kind === TokenKind.String) {
+                script.name = unquote(tokens[1]);
+            }
+            if (first === "end") {
+                script.strayEnds.push(statement);
+            }
+            continue;
+        }
+
+        statement.handler = handler;
+        statement.block = block;
+        handler.statements.push(statement);
+
+        switch (first) {
+            case "end": {
+                const second = isWord(tokens[1]) ? tokens[1].text.toLowerCase() : "";
+                if ((ControlKeywords as string[]).includes(second)) {
+                    let target = block;
+                    while (target && target.kind !== second) {
+                        target = target.parent;
+                    }
+                    if (!target) {
+                        script.strayEnds.push(statement);
+                        break;
+                    }
+                    target.closed = true;
+                    target.range = new vscode.Range(target.range.start, statement.range.end);
+                    statement.block = target;
+                    block = target.parent;
+                } else {
+                    handler.statements.pop();
+                    closeHandler(statement);
+                }
+                break;
+            }
+
+            case "if": {
+                const then = tokens.findIndex((token, index) => index > 0 && isWord(token, "then"));
+                if (then < 0) {
+                    pendingIf = statement;
+                } else if (then === tokens.length - 1) {
+                    openBlock("if", statement);
+                } else {
+                    singleLineIf = statement;
+                }
+                break;
+            }
+
+            case "then":
+                if (previousPendingIf) {
+                    if (tokens.length === 1) {
+                        openBlock("if", previousPendingIf);
+                    } else {
+                        singleLineIf = previousPendingIf;
+                    }
+                }
+                break;
+
+            case "else": {
+                const isElseIf = isWord(tokens[1], "if");
+                const opensBlock = tokens.length === 1 || (isElseIf && isWord(tokens[tokens.length - 1], "then"));
+                if (previousSingleLineIf) {
+                    if (opensBlock) {
+                        openBlock("if", previousSingleLineIf);
+                        statement.block = block;
+                        block!.branches.push(statement);
+                    } else if (isElseIf) {
+                        singleLineIf = previousSingleLineIf;
+                    }
+                } else if (block && block.kind === "if") {
+                    block.branches.push(statement);
+                }
+                break;
+            }
+
+            case "repeat":
+            case "switch":
+            case "try":
+                openBlock(first, statement);
+                break;
+
+            default:
+                if (BranchKeywords.includes(first) && block) {
+                    block.branches.push(statement);
+                }
+        }
+    }
+
+    closeHandler();
+}
+
+
+function parseHandlerHeader(statement: Statement): Handler | undefined {
+    const tokens = statement.tokens;
+    let index = 0;
+    let isPrivate = false;
+    if (isWord(tokens[0], "private")) {
+        isPrivate = true;
+        index++;
+    }
+
+    const kind = isWord(tokens[index]) ? tokens[index].text.toLowerCase() as HandlerKind : undefined;
+    const name = tokens[index + 1];
+    if (!kind || !HandlerKeywords.includes(kind) || !isWord(name)) {
+        return undefined;
+    }
+
+    const parameters: Parameter[] = [];
+    let byReference = false;
+    for (const token of tokens.slice(index + 2)) {
+        if (token.kind === TokenKind.Operator && token.text === "@") {
+            byReference = true;
+        } else if (token.kind === TokenKind.Word) {
+            parameters.push({ name: token.text, byReference, range: token.range });
+            byReference = false;
+        }
+    }
+
+    return {
+        kind,
+        name: name.text,
+        private: isPrivate,
+        nameRange: name.range,
+        range: statement.range,
+        header: statement,
+        parameters,
+        declarations: [],
+        statements: [],
+        blocks: [],
+    };
+}
+
+
+function parseDeclarations(kind: DeclarationKind, statement: Statement, handler?: Handler): Declaration[] {
+    const declarations: Declaration[] = [];
+    let expectName = true;
+    let depth = 0;
+
+    for (const token of statement.tokens.slice(1)) {
+        if (token.kind === TokenKind.Operator) {
+            if (token.text === "(" || token.text === "[") {
+                depth++;
+            } else if (token.text === ")" || token.text === "]") {
+                depth--;
+            } else if (token.text === "," && depth <= 0) {
+                expectName = true;
+            } else if (token.text === "=") {
+                expectName = false;
+            }
+            continue;
+        }
+        if (expectName && token.kind === TokenKind.Word) {
+            declarations.push({ kind, name: token.text, range: token.range, statement, handler });
+            expectName = false;
+        }
+    }
+
+    return declarations;
+}
@@ -0,0 +1,46 @@
+import * as vscode from "vscode";
+import { findHandlers, parseDocument, Script } from "./LCSparser";
+import { findReferences, resolveTarget } from "./LCSreferences";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
+
+
+export class LivecodescriptReferenceProvider implements vscode.ReferenceProvider {
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    public async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken): Promise<vscode.Location[] | undefined> {
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange) {
+            return;
+        }
+
+        const script = parseDocument(document);
+        const target = resolveTarget(script, document.getText(wordRange), position);
+
+        // Public handlers and globals are shared by every script in the workspace
+        let scripts: { uri: vscode.Uri, script: Script }[] = [{ uri: document.uri, script }];
+        const isPrivate = target.kind === "handler" && findHandlers(script, target.name).some(handler => handler.private);
+        if ((target.kind === "handler" && !isPrivate) || target.kind === "global") {
+            await this.index.ready;
+            scripts = this.index.scripts();
+        }
+
+        const locations: vscode.Location[] = [];
+        for (const entry of scripts) {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            for (const reference of findReferences(entry.script, target)) {
+                if (context.includeDeclaration || !reference.declaration) {
+                    locations.push(new vscode.Location(entry.uri, reference.range));
+                }
+            }
+        }
+        return locations;
+    }
+}
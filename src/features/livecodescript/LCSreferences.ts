@@ -0,0 +1,174 @@
+import * as vscode from "vscode";
+import { Handler, isWord, lookupName, sameName, Script, Token, TokenKind, unquote } from "./LCSparser";
+
+
+/*
+ * Finds the places a handler or variable is used in a parsed script. Shared by
+ * the reference and rename providers.
+ */
+
+
+export type ReferenceTarget =
+    | { kind: "handler", name: string }
+    | { kind: "global", name: string }
+    /** Parameters, locals and constants; `handler` is unset for script level ones. */
+    | { kind: "variable", name: string, handler?: Handler };
+
+export interface Reference {
+    range: vscode.Range;
+    declaration: boolean;
+}
+
+
+/** Commands taking a message name as a quoted string. */
+const MessageCommands = ["send", "dispatch", "call"];
+
+
+export function resolveTarget(script: Script, name: string, position: vscode.Position): ReferenceTarget {
+    const definition = lookupName(script, name, position);
+    if (!definition || definition.kind === "handler") {
+        return { kind: "handler", name: definition?.name ?? name };
+    }
+    if (definition.kind === "global") {
+        return { kind: "global", name: definition.name };
+    }
+    return { kind: "variable", name: definition.name, handler: definition.handler };
+}
+
+
+export function findReferences(script: Script, target: ReferenceTarget): Reference[] {
+    switch (target.kind) {
+        case "handler":
+            return handlerReferences(script, target.name);
+        case "global":
+            return globalReferences(script, target.name);
+        case "variable":
+            return target.handler ? variableReferences(target.handler, target.name) : scriptVariableReferences(script, target.name);
+    }
+}
+
+
+/**
+ * Range of the message name inside a `send "name arg" to ...`, `dispatch`
+ * or `call` string.
+ */
+export function messageNameRange(tokens: Token[], index: number): vscode.Range | undefined {
+    const token = tokens[index];
+    if (token.kind !== TokenKind.String) {
+        return undefined;
+    }
+    let previous = index - 1;
+    if (isWord(tokens[previous], "function") && isWord(tokens[previous - 1], "dispatch")) {
+        previous--;
+    }
+    if (!tokens[previous] || !MessageCommands.some(command => isWord(tokens[previous], command))) {
+        return undefined;
+    }
+
+    const content = unquote(token);
+    const leading = content.length - content.replace(/^\s+/, "").length;
+    const name = content.substring(leading).split(/[\s(,]/)[0];
+    if (!name) {
+        return undefined;
+    }
+    const start = token.range.start.character + 1 + leading;
+    return new vscode.Range(token.range.start.line, start, token.range.start.line, start + name.length);
+}
+
+
+function declaresVariable(handler: Handler, name: string): boolean {
+    return handler.parameters.some(p => sameName(p.name, name)) || handler.declarations.some(d => sameName(d.name, name));
+}
+
+
+function handlerReferences(script: Script, name: string): Reference[] {
+    const references: Reference[] = [];
+    const scriptVariable = script.declarations.some(d => sameName(d.name, name));
+
+    for (const handler of script.handlers) {
+        if (sameName(handler.name, name)) {
+            references.push({ range: handler.nameRange, declaration: true });
+            const endName = handler.end?.tokens[1];
+            if (endName && sameName(endName.text, name)) {
+                references.push({ range: endName.range, declaration: true });
+            }
+        }
+
+        // A variable with the same name hides the handler
+        const hidden = scriptVariable || declaresVariable(handler, name);
+        for (const statement of handler.statements) {
+            statement.tokens.forEach((token, index) => {
+                if (token.kind === TokenKind.Word) {
+                    if (!hidden && sameName(token.text, name)) {
+                        references.push({ range: token.range, declaration: false });
+                    }
+                    return;
+                }
+                const message = messageNameRange(statement.tokens, index);
+                if (message && sameName(token.text.substr(message.start.character - token.range.start.character, message.end.character - message.start.character), name)) {
+                    references.push({ range: message, declaration: false });
+                }
+            });
+        }
+    }
+
+    return references;
+}
+
+
+function variableReferences(handler: Handler, name: string): Reference[] {
+    const references: Reference[] = [];
+    for (const parameter of handler.parameters) {
+        if (sameName(parameter.name, name)) {
+            references.push({ range: parameter.range, declaration: true });
+        }
+    }
+    for (const declaration of handler.declarations) {
+        if (sameName(declaration.name, name)) {
+            references.push({ range: declaration.range, declaration: true });
+        }
+    }
+
+    for (const statement of handler.statements) {
+        statement.tokens.forEach((token, index) => {
+            if (!isWord(token, name) || isWord(statement.tokens[index - 1], "the")) {
+                return;
+            }
+            if (!references.some(reference => reference.range.isEqual(token.range))) {
+                references.push({ range: token.range, declaration: false });
+            }
+        });
+    }
+    return references;
+}
+
+
+function scriptVariableReferences(script: Script, name: string): Reference[] {
+    const references: Reference[] = script.declarations
+        .filter(d => sameName(d.name, name))
+        .map(d => ({ range: d.range, declaration: true }));
+
+    for (const handler of script.handlers) {
+        if (!declaresVariable(handler, name)) {
+            references.push(...variableReferences(handler, name));
+        }
+    }
+    return references;
+}
+
+
+function globalReferences(script: Script, name: string): Reference[] {
+    const declaredInScript = script.declarations.some(d => d.kind === "global" && sameName(d.name, name));
+    const references: Reference[] = script.declarations
+        .filter(d => d.kind === "global" && sameName(d.name, name))
+        .map(d => ({ range: d.range, declaration: true }));
+
+    for (const handler of script.handlers) {
+        const local = handler.declarations.find(d => sameName(d.name, name));
+        const parameter = handler.parameters.some(p => sameName(p.name, name));
+        if (local?.kind === "global" || (declaredInScript && !local && !parameter)) {
+            references.push(...variableReferences(handler, name));
+        }
+    }
+    return references;
+}
@@ -0,0 +1,75 @@
+import * as vscode from "vscode";
+import { findHandlers, isIdentifier, parseDocument, Script } from "./LCSparser";
+import { findReferences, ReferenceTarget, resolveTarget } from "./LCSreferences";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
+
+
+export class LivecodescriptRenameProvider implements vscode.RenameProvider {
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    public async prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken): Promise<vscode.Range> {
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange || !(await this.resolve(document, position, wordRange))) {
+            throw new Error("You can only rename handlers and declared variables.");
+        }
+        return wordRange;
+    }
+
+    public async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit | undefined> {
+        if (!isIdentifier(newName)) {
+            throw new Error(`'${newName}' is not a valid LiveCode name.`);
+        }
+        const wordRange = document.getWordRangeAtPosition(position);
+        const resolved = wordRange ? await this.resolve(document, position, wordRange) : undefined;
+        if (!resolved) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const entry of resolved.scripts) {
+            for (const reference of findReferences(entry.script, resolved.target)) {
+                edit.replace(entry.uri, reference.range, newName);
+            }
+        }
+        return edit;
+    }
+
+    /**
+     * Resolves the renamed symbol and the scripts it can be used from.
+     * Handlers must be declared somewhere in the workspace, otherwise any
+     * built-in command could be renamed. Scripts with a private handler of
+     * the same name call their own handler and are left alone.
+     */
+    private async resolve(document: vscode.TextDocument, position: vscode.Position, wordRange: vscode.Range): Promise<{ target: ReferenceTarget, scripts: { uri: vscode.Uri, script: Script }[] } | undefined> {
+        const script = parseDocument(document);
+        const target = resolveTarget(script, document.getText(wordRange), position);
+        const local = [{ uri: document.uri, script }];
+
+        if (target.kind === "variable") {
+            return { target, scripts: local };
+        }
+
+        const handlers = findHandlers(script, target.name);
+        if (target.kind === "handler" && handlers.some(handler => handler.private)) {
+            return { target, scripts: local };
+        }
+
+        await this.index.ready;
+        if (target.kind === "handler" && handlers.length === 0 && this.index.findDefinitions(target.name, "livecodescript").length === 0) {
+            return undefined;
+        }
+        const scripts = target.kind === "handler"
+            ? this.index.scripts().filter(entry => !findHandlers(entry.script, target.name).some(handler => handler.private))
+            : this.index.scripts();
+        return { target, scripts };
+    }
+}
@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import { HandlerKeywords, HandlerKind, isWord, lookupName, parseDocument, sameName, Script, ScriptKeywords, Statement, Token, TokenKind } from "./LCSparser";
+import { lookupDictionary } from "./LCSdictionary";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
+
+
+const TokenTypes = ["parameter", "variable", "function", "method", "event", "property", "keyword"];
+const TokenModifiers = ["declaration", "readonly", "defaultLibrary", "local", "scriptLocal", "global"];
+
+export const LivecodescriptSemanticTokensLegend = new vscode.SemanticTokensLegend(TokenTypes, TokenModifiers);
+
+const HandlerTokenTypes: { [kind in HandlerKind]: string } = {
+    on: "event",
+    before: "event",
+    after: "event",
+    command: "method",
+    function: "function",
+    getprop: "property",
+    setprop: "property",
+};
+
+
+/**
+ * Classifies words from the parsed scope information, so that variables are
+ * told apart by how they are declared instead of by their prefix. Tokens are
+ * requested again whenever the index reads other scripts, since their public
+ * handlers are highlighted too.
+ */
+export class LivecodescriptSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider, vscode.Disposable {
+    private changedEmitter = new vscode.EventEmitter<void>();
+    private indexListener: vscode.Disposable;
+
+    public readonly onDidChangeSemanticTokens = this.changedEmitter.event;
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+        this.indexListener = index.onDidChange(() => this.changedEmitter.fire());
+    }
+
+    public dispose(): void {
+        this.indexListener.dispose();
+        this.changedEmitter.dispose();
+    }
+
+    public async provideDocumentSemanticTokens(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken): Promise<vscode.SemanticTokens> {
+        await this.index.ready;
+        const script = parseDocument(document);
+        const builder = new vscode.SemanticTokensBuilder(LivecodescriptSemanticTokensLegend);
+
+        // Public handlers of the other scripts
+        const workspaceHandlers = new Set<string>();
+        for (const entry of this.index.scripts()) {
+            if (entry.uri.toString() !== document.uri.toString()) {
+                entry.script.handlers.filter(h => !h.private).forEach(h => workspaceHandlers.add(h.name.toLowerCase()));
+            }
+        }
+
+        for (const statement of script.statements) {
+            statement.tokens.forEach((word, index) => {
+                if (word.kind !== TokenKind.Word) {
+                    return;
+                }
+                const classified = classify(script, statement, index, workspaceHandlers);
+                if (classified) {
+                    builder.push(word.range, classified.type, classified.modifiers);
+                }
+            });
+        }
+        return builder.build();
+    }
+}
+
+
+function classify(script: Script, statement: Statement, index: number, workspaceHandlers: Set<string>): { type: string, modifiers: string[] } | undefined {
+    const tokens = statement.tokens;
+    const word = tokens[index];
+    const afterThe = isWord(tokens[index - 1], "the");
+
+    if (!afterThe) {
+        const definition = lookupName(script, word.text, word.range.start);
+        if (definition) {
+            const modifiers = definition.range.isEqual(word.range) ? ["declaration"] : [];
+            switch (definition.kind) {
+                case "parameter":
+                    return { type: "parameter", modifiers };
+                case "local":
+                    return { type: "variable", modifiers: [...modifiers, definition.handler ? "local" : "scriptLocal"] };
+                case "global":
+                    return { type: "variable", modifiers: [...modifiers, "global"] };
+                case "constant":
+                    return { type: "variable", modifiers: [...modifiers, "readonly"] };
+                case "handler":
+                    return isHandlerReference(tokens, index) ? { type: HandlerTokenTypes[definition.handler!.kind], modifiers } : undefined;
+            }
+        }
+    }
+
+    if (!afterThe && ScriptKeywords.some(keyword => sameName(keyword, word.text))) {
+        return { type: "keyword", modifiers: [] };
+    }
+    if (!afterThe && workspaceHandlers.has(word.text.toLowerCase()) && isHandlerReference(tokens, index)) {
+        return { type: "function", modifiers: [] };
+    }
+
+    const entries = lookupDictionary(word.text);
+    const entry = (afterThe ? entries.find(e => e.type === "property" || e.type === "function") : undefined) ?? entries[0];
+    if (!entry) {
+        return afterThe && isWord(tokens[index + 1], "of") ? { type: "property", modifiers: [] } : undefined;
+    }
+    switch (entry.type) {
+        case "property":
+            return { type: "property", modifiers: ["defaultLibrary"] };
+        case "function":
+        case "command":
+        case "message":
+            return { type: "function", modifiers: ["defaultLibrary"] };
+        case "keyword":
+        case "control structure":
+            return { type: "keyword", modifiers: [] };
+    }
+    return undefined;
+}
+
+/** Handler names are used as the first word of a command or before a `(`. */
+function isHandlerReference(tokens: Token[], index: number): boolean {
+    return index === 0
+        || tokens[index + 1]?.text === "("
+        || [...HandlerKeywords, "end", "private", "pass", "exit", "then", "else"].some(keyword => isWord(tokens[index - 1], keyword));
+}
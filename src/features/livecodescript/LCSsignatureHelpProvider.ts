@@ -0,0 +1,148 @@
+import * as vscode from "vscode";
+import { findHandlers, Handler, handlerComment, isWord, parseDocument, Script, Token, TokenKind } from "./LCSparser";
+import { DictionaryEntry, lookupDictionary } from "./LCSdictionary";
+import LivecodeWorkspaceIndex from "../workspace/workspaceIndex";
+
+
+/** The call around the cursor: `name(a, b` or a command `name a, b`. */
+interface Call {
+    name: string;
+    parenthesised: boolean;
+    activeParameter: number;
+}
+
+
+export class LivecodescriptSignatureHelpProvider implements vscode.SignatureHelpProvider {
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    public async provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.SignatureHelpContext): Promise<vscode.SignatureHelp | undefined> {
+        const script = parseDocument(document);
+        if (script.comments.some(c => c.range.contains(position))) {
+            return;
+        }
+
+        const statement = script.statements
+            .filter(s => s.range.start.isBeforeOrEqual(position) && s.range.end.line >= position.line)
+            .pop();
+        const tokens = statement ? statement.tokens.filter(t => t.range.end.isBeforeOrEqual(position)) : [];
+        const last = tokens[tokens.length - 1];
+        if (last?.kind === TokenKind.String && (last.text.length === 1 || !last.text.endsWith("\""))) {
+            // Inside an unterminated string
+            return;
+        }
+        const call = callAt(tokens, position);
+        if (!call) {
+            return;
+        }
+
+        const signature = findHandlers(script, call.name).map(handler => handlerInformation(script, handler))[0]
+            ?? await this.workspaceSignature(document, call.name)
+            ?? dictionarySignature(lookupDictionary(call.name), call.parenthesised);
+        if (!signature) {
+            return;
+        }
+
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = Math.min(call.activeParameter, Math.max(signature.parameters.length - 1, 0));
+        return help;
+    }
+
+    private async workspaceSignature(document: vscode.TextDocument, name: string): Promise<vscode.SignatureInformation | undefined> {
+        await this.index.ready;
+        for (const entry of this.index.scripts()) {
+            const handler = findHandlers(entry.script, name).find(h => !h.private);
+            if (handler && entry.uri.toString() !== document.uri.toString()) {
+                return handlerInformation(entry.script, handler);
+            }
+        }
+        return undefined;
+    }
+}
+
+
+/**
+ * Walks back from the cursor to the innermost open parenthesis preceded by
+ * a name, or else to the command at the start of the statement, counting
+ * the commas on the way.
+ */
+function callAt(tokens: Token[], position: vscode.Position): Call | undefined {
+    let depth = 0;
+    let commas = 0;
+    for (let i = tokens.length - 1; i >= 0; i--) {
+        const text = tokens[i].text;
+        if (text === ")") {
+            depth++;
+        } else if (text === "(" && depth > 0) {
+            depth--;
+        } else if (text === "(") {
+            if (isWord(tokens[i - 1])) {
+                return { name: tokens[i - 1].text, parenthesised: true, activeParameter: commas };
+            }
+            // A grouping parenthesis, the call is further out
+            commas = 0;
+        } else if (text === "," && depth === 0) {
+            commas++;
+        }
+    }
+
+    const name = tokens[0];
+    if (!isWord(name) || depth > 0 || !name.range.end.isBefore(position)) {
+        return undefined;
+    }
+    return { name: name.text, parenthesised: false, activeParameter: commas };
+}
+
+
+function handlerInformation(script: Script, handler: Handler): vscode.SignatureInformation {
+    let label = `${handler.kind} ${handler.name}`;
+    const parameters: vscode.ParameterInformation[] = [];
+    handler.parameters.forEach((parameter, index) => {
+        label += index === 0 ? " " : ", ";
+        const text = (parameter.byReference ? "@" : "") + parameter.name;
+        parameters.push(new vscode.ParameterInformation([label.length, label.length + text.length], parameter.byReference ? "Passed by reference" : undefined));
+        label += text;
+    });
+
+    const signature = new vscode.SignatureInformation(label, handlerComment(script, handler));
+    signature.parameters = parameters;
+    return signature;
+}
+
+/**
+ * Signature from a dictionary syntax line when its parameters are a plain
+ * comma separated list, e.g. `revXMLTree(treeID, nodeDelimiter, ...)` or
+ * `mobileControlSet idOrName, property, value`.
+ */
+function dictionarySignature(entries: DictionaryEntry[], parenthesised: boolean): vscode.SignatureInformation | undefined {
+    for (const entry of entries) {
+        if ((entry.type === "function") !== parenthesised) {
+            continue;
+        }
+        for (const syntax of entry.syntax) {
+            const match = parenthesised ? /^\w+\s*\((.*)\)$/.exec(syntax) : /^\w+\s+(.*)$/.exec(syntax);
+            const names = match ? match[1].replace(/[\[\]]/g, "").split(",").map(name => name.trim()).filter(name => name !== "...") : [];
+            if (names.length === 0 || !names.every(name => /^\w+$/.test(name))) {
+                continue;
+            }
+
+            const signature = new vscode.SignatureInformation(syntax, entry.summary);
+            let offset = syntax.indexOf(match![1]);
+            signature.parameters = names.map(name => {
+                const start = syntax.indexOf(name, offset);
+                offset = start + name.length;
+                const description = entry.parameters?.find(p => p.name === name)?.description;
+                return new vscode.ParameterInformation([start, offset], description);
+            });
+            return signature;
+        }
+    }
+    return undefined;
+}
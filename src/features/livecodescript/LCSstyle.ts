@@ -0,0 +1,122 @@
+import { isWord, sameName, ScriptKeywords, Token, TokenKind } from "./LCSparser";
+import { tokenize } from "../utils/tokenizer";
+
+
+/*
+ * Style rules of the `livecodescript.formatter.*` settings, applied to the
+ * output of `tools/Formatter.lc` or of the in-process formatter. They only
+ * change spacing, comment markers and the casing of keywords, never what a
+ * line does.
+ */
+
+
+export type KeywordCase = "preserve" | "lower" | "title";
+
+export interface StyleOptions {
+    keywordCase: KeywordCase;
+    /** Runs of blank lines become a single blank line. */
+    collapseBlankLines: boolean;
+    trimTrailingWhitespace: boolean;
+    /** Indentation of `\` continuation lines past their statement, 0 keeps that of the formatter. */
+    continuationIndent: number;
+    /** Indent continuation lines with tabs instead of spaces. */
+    useTabs: boolean;
+    /** One space on both sides of `&`, `&&` and `=`. */
+    spaceAroundOperators: boolean;
+    /** `#` comments become `--` comments. */
+    convertHashComments: boolean;
+}
+
+interface Replacement {
+    start: number;
+    end: number;
+    text: string;
+}
+
+const SpacedOperators = ["&", "&&", "="];
+
+
+/** Applies the style options to formatted text, line by line. */
+export function applyStyle(text: string, options: StyleOptions): string {
+    const lines = text.split(/\r?\n/);
+    const trailingBreak = text.endsWith("\n");
+    if (trailingBreak) {
+        lines.pop();
+    }
+
+    const tokenized = tokenize(lines.join("\n"), { hashComments: true, continuations: true, markup: true });
+    const lineComments = new Map(tokenized.comments.filter(comment => !comment.block).map(comment => [comment.range.start.line, comment]));
+    const inBlockComment = (line: number) => tokenized.comments.some(comment => comment.block && comment.range.start.line < line && line <= comment.range.end.line);
+
+    const result: string[] = [];
+    let statementIndentation = "";
+    let continued = false;
+
+    lines.forEach((source, line) => {
+        const tokens = tokenized.lines[line];
+        const replacements = new Map<string, Replacement>();
+        const replace = (start: number, end: number, text: string) => {
+            if (source.substring(start, end) !== text) {
+                replacements.set(`${start}:${end}`, { start, end, text });
+            }
+        };
+
+        const indentation = /^\s*/.exec(source)![0];
+        if (!continued) {
+            statementIndentation = indentation;
+        } else if (options.continuationIndent > 0 && tokens.length > 0) {
+            replace(0, indentation.length, statementIndentation + (options.useTabs ? "\t" : " ").repeat(options.continuationIndent));
+        }
+        continued = tokens.length > 0 && tokens[tokens.length - 1].kind === TokenKind.Continuation;
+
+        tokens.forEach((token, index) => {
+            if (options.keywordCase !== "preserve" && isKeyword(tokens, index)) {
+                replace(token.range.start.character, token.range.end.character, withCase(token.text, options.keywordCase));
+            }
+            if (options.spaceAroundOperators && token.kind === TokenKind.Operator && SpacedOperators.includes(token.text)) {
+                const previous = tokens[index - 1];
+                const next = tokens[index + 1];
+                if (previous) {
+                    replace(previous.range.end.character, token.range.start.character, " ");
+                }
+                if (next) {
+                    replace(token.range.end.character, next.range.start.character, " ");
+                }
+            }
+        });
+
+        const comment = lineComments.get(line);
+        // A `#!` first line is the interpreter of a server script, not a comment
+        if (options.convertHashComments && comment && comment.text.startsWith("#") && !(line === 0 && comment.text.startsWith("#!"))) {
+            const start = comment.range.start.character;
+            replace(start, start + 1, "--");
+        }
+
+        let styled = [...replacements.values()]
+            .sort((a, b) => b.start - a.start || b.end - a.end)
+            .reduce((text, replacement) => text.substring(0, replacement.start) + replacement.text + text.substring(replacement.end), source);
+        if (options.trimTrailingWhitespace) {
+            styled = styled.replace(/[ \t]+$/, "");
+        }
+
+        const blank = styled.trim() === "";
+        if (options.collapseBlankLines && blank && result.length > 0 && result[result.length - 1].trim() === "" && !inBlockComment(line)) {
+            return;
+        }
+        result.push(styled);
+    });
+
+    return result.join("\n") + (trailingBreak ? "\n" : "");
+}
+
+
+/** Keywords, leaving out property names such as `the default`. */
+function isKeyword(tokens: Token[], index: number): boolean {
+    const token = tokens[index];
+    return isWord(token) && !isWord(tokens[index - 1], "the") && ScriptKeywords.some(keyword => sameName(keyword, token.text));
+}
+
+function withCase(word: string, keywordCase: KeywordCase): string {
+    const lower = word.toLowerCase();
+    return keywordCase === "title" ? lower.charAt(0).toUpperCase() + lower.substring(1) : lower;
+}
@@ -3,12 +3,15 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import * as cp from 'child_process';
 import * as which from 'which';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { ThrottledDelayer } from '../utils/async';
-import { LineDecoder } from '../utils/lineDecoder';
+import LivecodeWorker from '../utils/livecodeWorker';
+import { lintRecordToDiagnostic, parseLintRecord } from '../utils/lintRecords';
+import { parseDocument } from './LCSparser';
+import { lintScript } from './LCSlintRules';
+import { applyLintSettings, lintRuleSettings } from '../utils/lintSettings';
 import * as nls from 'vscode-nls';
 let localize = nls.loadMessageBundle();
 
@@ -41,20 +44,19 @@ namespace RunLCSTrigger {
 
 export default class LivecodescriptValidationProvider {
 	
-	private static MatchExpression: RegExp = /(?:(?:Parse|Fatal) error): (.*)(?: in )(.*?)(?: on line )(\d+)/;
-	private static BufferArgs: string[] = [(path.resolve(__dirname, '../../../tools/Linter.lc')).replace(/[\\]+/g,"/"), '-scope=.source.livecodescript','-explicitVariables=true'];
-	private static FileArgs: string[] = [path.resolve(__dirname, '../../../tools/Linter.lc').replace(/[\\]+/g,"/"), '-scope=.source.livecodescript','-explicitVariables=true'];
-
 	private validationEnabled: boolean;
 	private pauseValidation: boolean;
+	private reportedMissingExecutable = false;
 	private config: ILivecodescriptConfig | undefined;
 	private loadConfigP: Promise<void>;
 
 	private documentListener: vscode.Disposable | null = null;
 	private diagnosticCollection?: vscode.DiagnosticCollection;
 	private delayers?: { [key: string]: ThrottledDelayer<void> };
+	private workspaceDocuments = new Set<string>();
+	private openingDocuments = new Set<string>();
 
-	constructor() {
+	constructor(private worker: LivecodeWorker) {
 		this.validationEnabled = true;
 		this.pauseValidation = false;
 		this.loadConfigP = this.loadConfiguration();
@@ -65,13 +67,50 @@ export default class LivecodescriptValidationProvider {
 		subscriptions.push(this);
 		subscriptions.push(vscode.workspace.onDidChangeConfiguration(() => this.loadConfigP = this.loadConfiguration()));
 
-		vscode.workspace.onDidOpenTextDocument(this.triggerValidateLCS, this, subscriptions);
+		vscode.workspace.onDidOpenTextDocument((textDocument) => {
+			// The workspace validation validates the documents it opens itself
+			if (!this.openingDocuments.has(textDocument.uri.toString())) {
+				this.triggerValidateLCS(textDocument);
+			}
+		}, null, subscriptions);
 		vscode.workspace.onDidCloseTextDocument((textDocument) => {
-			this.diagnosticCollection!.delete(textDocument.uri);
-			delete this.delayers![textDocument.uri.toString()];
+			let key = textDocument.uri.toString();
+			if (!this.workspaceDocuments.has(key)) {
+				this.diagnosticCollection!.delete(textDocument.uri);
+			}
+			delete this.delayers![key];
 		}, null, subscriptions);
 	}
 
+	/**
+	 * Opens a file for the workspace wide validation without validating it
+	 * on open, since the workspace validation is about to.
+	 */
+	public async openWorkspaceDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+		const key = uri.toString();
+		this.openingDocuments.add(key);
+		try {
+			return await vscode.workspace.openTextDocument(uri);
+		} finally {
+			this.openingDocuments.delete(key);
+		}
+	}
+
+	/**
+	 * Validates a document for the workspace wide validation. It does not need
+	 * to be open in an editor and its diagnostics are kept when it is closed.
+	 */
+	public validateWorkspaceDocument(textDocument: vscode.TextDocument): Promise<void> {
+		this.workspaceDocuments.add(textDocument.uri.toString());
+		return this.triggerValidateLCS(textDocument);
+	}
+
+	/** Drops the diagnostics of a file that was deleted. */
+	public forget(uri: vscode.Uri): void {
+		this.workspaceDocuments.delete(uri.toString());
+		this.diagnosticCollection!.delete(uri);
+	}
+
 	public dispose(): void {
 		if (this.diagnosticCollection) {
 			this.diagnosticCollection.clear();
@@ -98,8 +137,10 @@ export default class LivecodescriptValidationProvider {
 			this.documentListener.dispose();
 			this.documentListener = null;
 		}
-		this.diagnosticCollection!.clear();
 		if (this.validationEnabled) {
+			// Open documents are validated again below, the workspace validation
+			// keeps the results of the other files up to date
+			vscode.workspace.textDocuments.forEach(textDocument => this.diagnosticCollection!.delete(textDocument.uri));
 			if (this.config.trigger === RunLCSTrigger.onType) {
 				this.documentListener = vscode.workspace.onDidChangeTextDocument((e) => {
 					this.triggerValidateLCS(e.document);
@@ -109,12 +150,14 @@ export default class LivecodescriptValidationProvider {
 			}
 			// Configuration has changed. Reevaluate all documents.
 			vscode.workspace.textDocuments.forEach(this.triggerValidateLCS, this);
+		} else {
+			this.diagnosticCollection!.clear();
 		}
 	}
 
 	private async triggerValidateLCS(textDocument: vscode.TextDocument): Promise<void> {
 		await this.loadConfigP;
-		if (textDocument.languageId !== 'livecodescript' || this.pauseValidation || !this.validationEnabled) {
+		if (textDocument.languageId !== 'livecodescript' || !this.validationEnabled) {
 			return;
 		}
 
@@ -125,94 +168,72 @@ export default class LivecodescriptValidationProvider {
 				delayer = new ThrottledDelayer<void>(this.config?.trigger === RunLCSTrigger.onType ? 250 : 0);
 				this.delayers![key] = delayer;
 			}
-			delayer.trigger(() => this.doValidateLCS(textDocument));
+			await delayer.trigger(() => this.doValidateLCS(textDocument));
 		}
 	}
 
 	private doValidateLCS(textDocument: vscode.TextDocument): Promise<void> {
 		return new Promise<void>(resolve => {
+			let config = vscode.workspace.getConfiguration("livecodescript");
+			let script = parseDocument(textDocument);
+			// The built-in rules run even when Linter.lc cannot
+			let diagnostics: vscode.Diagnostic[] = lintScript(script);
+			let done = () => {
+				this.diagnosticCollection!.set(textDocument.uri, applyLintSettings(diagnostics, script.comments, lintRuleSettings()));
+				resolve();
+			};
+
 			const executable = this.config!.executable;
 			if (!executable) {
-				this.showErrorMessageLCS(localize('noLivecode', 'Cannot validate since a Livecode installation could not be found. Use the setting \'livecodescript.LivecodeServerExecutablePath\' to configure the Livecode executable.'));
-				this.pauseValidation = true;
-				resolve();
+				// The built-in rules still ran, only say once that Linter.lc is skipped
+				if (!this.reportedMissingExecutable) {
+					this.reportedMissingExecutable = true;
+					this.showErrorMessageLCS(localize('noLivecodeBuiltinRules', 'The Linter.lc checks are skipped since a Livecode installation could not be found, only the built-in rules run. Use the setting \'livecodescript.LivecodeServerExecutablePath\' to configure the Livecode executable.'));
+				}
+				done();
 				return;
 			}
 
 			if (!path.isAbsolute(executable)) {
 				// executable should either be resolved to an absolute path or undefined.
 				// This is just to be sure.
+				done();
+				return;
+			}
+
+			if (this.pauseValidation) {
+				// Livecode could not be started, only report the built-in rules
+				done();
 				return;
 			}
 
-			let decoder = new LineDecoder();
-			let diagnostics: vscode.Diagnostic[] = [];
 			let processLine = (line: string) => {
-				let matches = line.match(LivecodescriptValidationProvider.MatchExpression);
-				if (matches) {
-					let message = matches[1];
-					let line = parseInt(matches[3]) - 1;
-					let diagnostic: vscode.Diagnostic = new vscode.Diagnostic(
-						new vscode.Range(line, 0, line, Number.MAX_VALUE),
-						message
-					);
-					diagnostics.push(diagnostic);
+				let record = parseLintRecord(line);
+				if (record) {
+					diagnostics.push(lintRecordToDiagnostic(record, textDocument, "livecodescript"));
 				}
 			};
 
-			let options = (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0]) ? { cwd: vscode.workspace.workspaceFolders[0].uri.fsPath } : undefined;
-
-			let config = vscode.workspace.getConfiguration("livecodescript");
 			let explicitVariable = config.get("explicitVariables.enable", "");
 
 			let args: string[] = [
-				path
-					.resolve(__dirname, "../../../tools/Linter.lc")
-					.replace(/[\\]+/g, "/"),
 				"-scope=.source.livecodescript",
 				`-explicitVariables=${explicitVariable}`,
 			];
 
-			// TODO: This could be improved some how
-		//	if (this.config!.trigger === RunLCSTrigger.onSave) {
-		//		args = LivecodescriptValidationProvider.FileArgs.slice(0);
-		//		args.push(textDocument.fileName);
-		//	} else {
-				// args = LivecodescriptValidationProvider.BufferArgs;
-		//	}
-			try {
-				let childProcess = cp.spawn(executable, args, options);
-				childProcess.on('error', (error: Error) => {
-					if (this.pauseValidation) {
-						resolve(); 
-						return;
-					}
+			this.worker.request(executable, args, textDocument.getText()).then(output => {
+				output.split(/\r?\n/).forEach(processLine);
+				done();
+			}, (error: any) => {
+				if (!error.code) {
+					// The worker crashed or hung, it restarts with the next validation
+					console.error(error.message);
+				} else if (!this.pauseValidation) {
 					this.showErroLCS(error, executable);
 					this.pauseValidation = true;
-					resolve();
-				});
-				if (childProcess.pid) {
-					///if (this.config!.trigger === RunLCSTrigger.onType) {
-						childProcess.stdin.write(textDocument.getText());
-						childProcess.stdin.end();
-					///}
-					childProcess.stdout.on('data', (data: Buffer) => {
-						decoder.write(data).forEach(processLine);
-					});
-					childProcess.stdout.on('end', () => {
-						let line = decoder.end();
-						if (line) {
-							processLine(line);
-						}
-						this.diagnosticCollection!.set(textDocument.uri, diagnostics);
-						resolve();
-					});
-				} else {
-					resolve();
 				}
-			} catch (error) {
-				this.showErroLCS(error, executable);
-			}
+				done();
+			});
 		});
 	}
 
@@ -0,0 +1,34 @@
+import * as vscode from "vscode";
+import { Comment } from "./tokenizer";
+
+
+const RegionStart = /^(?:--|\/\/|#)\s*#region\b/i;
+const RegionEnd = /^(?:--|\/\/|#)\s*#endregion\b/i;
+
+
+/**
+ * Folds the lines of a structure closed by an `end` statement, leaving the
+ * `end` line visible. Unclosed structures fold up to their last line.
+ */
+export function structureFoldingRange(range: vscode.Range, closed: boolean, kind?: vscode.FoldingRangeKind): vscode.FoldingRange | undefined {
+    const end = closed ? range.end.line - 1 : range.end.line;
+    return end > range.start.line ? new vscode.FoldingRange(range.start.line, end, kind) : undefined;
+}
+
+/** Multi-line block comments and `-- #region` / `-- #endregion` pairs. */
+export function commentFoldingRanges(comments: Comment[]): vscode.FoldingRange[] {
+    const ranges: vscode.FoldingRange[] = [];
+    const regions: number[] = [];
+    for (const comment of comments) {
+        if (comment.block) {
+            if (comment.range.end.line > comment.range.start.line) {
+                ranges.push(new vscode.FoldingRange(comment.range.start.line, comment.range.end.line, vscode.FoldingRangeKind.Comment));
+            }
+        } else if (RegionStart.test(comment.text)) {
+            regions.push(comment.range.start.line);
+        } else if (RegionEnd.test(comment.text) && regions.length > 0) {
+            ranges.push(new vscode.FoldingRange(regions.pop()!, comment.range.start.line, vscode.FoldingRangeKind.Region));
+        }
+    }
+    return ranges;
+}
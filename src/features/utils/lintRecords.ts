@@ -0,0 +1,105 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+
+/**
+ * A diagnostic written by `tools/Linter.lc` as one JSON object per line.
+ * Lines and columns start at 1 and the end column is exclusive; a column of
+ * 0 means the linter could not tell where on the line the problem is.
+ */
+export interface LintRecord {
+    line: number;
+    column?: number;
+    endColumn?: number;
+    severity?: "error" | "warning" | "information" | "hint" | "note";
+    code?: number | string;
+    message: string;
+    /** The token the linter stopped at, if any. */
+    token?: string;
+    /** The file the diagnostic is in, when it is not the linted document. */
+    file?: string;
+}
+
+export const Severities: { [severity: string]: vscode.DiagnosticSeverity } = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+};
+
+
+export function parseLintRecord(line: string): LintRecord | undefined {
+    if (!line.startsWith("{")) {
+        return undefined;
+    }
+    try {
+        const record = JSON.parse(line);
+        return typeof record.line === "number" && typeof record.message === "string" ? record : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export function lintRecordToDiagnostic(record: LintRecord, document: vscode.TextDocument, source: string): vscode.Diagnostic {
+    const line = Math.min(Math.max(record.line - 1, 0), document.lineCount - 1);
+    let range: vscode.Range;
+    if (!record.column) {
+        range = document.lineAt(line).range;
+    } else {
+        const start = new vscode.Position(line, record.column - 1);
+        range = record.endColumn && record.endColumn > record.column
+            ? new vscode.Range(start, new vscode.Position(line, record.endColumn - 1))
+            : document.getWordRangeAtPosition(start) ?? new vscode.Range(start, start.translate(0, 1));
+    }
+
+    const message = record.token ? `${record.message} (${record.token})` : record.message;
+    const diagnostic = new vscode.Diagnostic(range, message, Severities[record.severity ?? "error"] ?? vscode.DiagnosticSeverity.Error);
+    diagnostic.code = record.code;
+    diagnostic.source = source;
+    return diagnostic;
+}
+
+/**
+ * Diagnostics of the records of a document. A `note` record explains the
+ * diagnostic before it and becomes its related information. Diagnostics in
+ * another file, such as a module it uses, are shown on the first line with
+ * their location as related information.
+ */
+export function lintRecordsToDiagnostics(records: LintRecord[], document: vscode.TextDocument, source: string): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const record of records) {
+        const previous = diagnostics[diagnostics.length - 1];
+        if (record.severity === "note") {
+            if (previous) {
+                previous.relatedInformation = [...previous.relatedInformation ?? [], new vscode.DiagnosticRelatedInformation(recordLocation(record, document), record.message)];
+            }
+            continue;
+        }
+        if (!record.file || isDocumentFile(record.file, document)) {
+            diagnostics.push(lintRecordToDiagnostic({ ...record, file: undefined }, document, source));
+            continue;
+        }
+        const diagnostic = lintRecordToDiagnostic({ ...record, line: 1, column: 0, message: `${path.basename(record.file)}: ${record.message}`, file: undefined }, document, source);
+        diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(recordLocation(record, document), record.message)];
+        diagnostics.push(diagnostic);
+    }
+    return diagnostics;
+}
+
+/** Where a record points to, relative paths being relative to the document's folder. */
+function recordLocation(record: LintRecord, document: vscode.TextDocument): vscode.Location {
+    const position = new vscode.Position(Math.max(record.line - 1, 0), Math.max((record.column ?? 0) - 1, 0));
+    const uri = !record.file || isDocumentFile(record.file, document)
+        ? document.uri
+        : vscode.Uri.file(path.isAbsolute(record.file) || /^[a-z]:[\\/]/i.test(record.file) ? record.file : path.resolve(path.dirname(document.uri.fsPath), record.file));
+    return new vscode.Location(uri, position);
+}
+
+function isDocumentFile(file: string, document: vscode.TextDocument): boolean {
+    // Windows paths may use either slash and any case
+    const normalize = (name: string) => {
+        const normalized = path.normalize(name).replace(/\\/g, "/");
+        return process.platform === "win32" ? normalized.toLowerCase() : normalized;
+    };
+    return document.uri.scheme === "file" && normalize(file) === normalize(document.uri.fsPath);
+}
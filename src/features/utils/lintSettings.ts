@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+import { Comment } from "./tokenizer";
+import { Severities } from "./lintRecords";
+
+
+export type RuleSeverity = "off" | "hint" | "information" | "warning" | "error";
+
+/** Severity per rule id, as in the `livecodescript.lint.rules` setting. */
+export type RuleSettings = { [rule: string]: RuleSeverity };
+
+/** Rule id of the diagnostics of `tools/Linter.lc` that carry no error code. */
+export const LinterRule = "linter";
+
+const DirectiveExpression = /^(?:--|\/\/|#|\/\*)\s*lint-(disable-next-line|disable-line|disable-file|disable|enable)\b(.*?)(?:\*\/)?\s*$/i;
+
+interface Suppression {
+    /** Rule ids in lowercase, empty for every rule. */
+    rules: string[];
+    from: number;
+    to: number;
+}
+
+
+export function lintRuleSettings(): RuleSettings {
+    return vscode.workspace.getConfiguration("livecodescript").get<RuleSettings>("lint.rules", {});
+}
+
+/**
+ * The rule a diagnostic belongs to: the id of a built-in rule, or the
+ * LiveCode error number of a `tools/Linter.lc` diagnostic.
+ */
+export function ruleId(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === "object" ? diagnostic.code.value : diagnostic.code;
+    return code !== undefined && code !== "" ? String(code) : LinterRule;
+}
+
+/**
+ * Applies the `livecodescript.lint.rules` severities and drops the
+ * diagnostics suppressed by comments in the file:
+ *
+ * - `-- lint-disable-next-line [rules]` and `-- lint-disable-line [rules]`
+ * - `-- lint-disable [rules]` up to the next `-- lint-enable [rules]`
+ * - `-- lint-disable-file [rules]` anywhere in the file
+ *
+ * Rules are separated by commas or spaces; without rules every rule is
+ * suppressed. A `lint-disable` of every rule only ends at a plain `lint-enable`.
+ */
+export function applyLintSettings(diagnostics: vscode.Diagnostic[], comments: Comment[], settings: RuleSettings): vscode.Diagnostic[] {
+    const suppressions = parseSuppressions(comments);
+    return diagnostics.filter(diagnostic => {
+        const rule = ruleId(diagnostic);
+        const severity = settings[rule];
+        if (severity === "off") {
+            return false;
+        }
+        if (severity && Severities[severity] !== undefined) {
+            diagnostic.severity = Severities[severity];
+        }
+        const line = diagnostic.range.start.line;
+        return !suppressions.some(suppression => line >= suppression.from && line <= suppression.to
+            && (suppression.rules.length === 0 || suppression.rules.includes(rule.toLowerCase())));
+    });
+}
+
+
+function parseSuppressions(comments: Comment[]): Suppression[] {
+    const suppressions: Suppression[] = [];
+    let open: Suppression[] = [];
+
+    for (const comment of comments) {
+        const match = DirectiveExpression.exec(comment.text.trim());
+        if (!match) {
+            continue;
+        }
+        const directive = match[1].toLowerCase();
+        const rules = match[2].split(/[\s,]+/).filter(rule => rule !== "").map(rule => rule.toLowerCase());
+        const line = comment.range.start.line;
+
+        switch (directive) {
+            case "disable-next-line":
+                suppressions.push({ rules, from: comment.range.end.line + 1, to: comment.range.end.line + 1 });
+                break;
+            case "disable-line":
+                suppressions.push({ rules, from: line, to: line });
+                break;
+            case "disable-file":
+                suppressions.push({ rules, from: 0, to: Number.MAX_VALUE });
+                break;
+            case "disable":
+                open.push({ rules, from: line, to: Number.MAX_VALUE });
+                break;
+            case "enable": {
+                const stillOpen: Suppression[] = [];
+                for (const suppression of open) {
+                    if (rules.length === 0 || suppression.rules.some(rule => rules.includes(rule))) {
+                        suppressions.push({ ...suppression, to: line });
+                        const remaining = suppression.rules.filter(rule => !rules.includes(rule));
+                        if (rules.length > 0 && remaining.length > 0) {
+                            stillOpen.push({ rules: remaining, from: line, to: Number.MAX_VALUE });
+                        }
+                    } else {
+                        stillOpen.push(suppression);
+                    }
+                }
+                open = stillOpen;
+                break;
+            }
+        }
+    }
+    return suppressions.concat(open);
+}
@@ -0,0 +1,172 @@
+import * as cp from "child_process";
+import * as path from "path";
+import * as vscode from "vscode";
+import { LineDecoder } from "./lineDecoder";
+
+
+/** A request taking longer than this is considered stuck and the worker is restarted. */
+const RequestTimeout = 30000;
+
+interface PendingRequest {
+    /** The request as written to stdin, written again when the worker restarts. */
+    line: string;
+    resolve: (output: string) => void;
+    reject: (error: Error) => void;
+    timeout: () => void;
+    timer: NodeJS.Timeout;
+}
+
+
+/**
+ * A long running LiveCode server process running one of the scripts in
+ * `tools` with `-worker`, so that LiveCode starts once instead of once per
+ * validation or formatting.
+ *
+ * Every request is one line on stdin: an id, the command line arguments and
+ * the text, separated by tabs, the last two base64 encoded. The worker
+ * answers with the id and the base64 encoded output on one line of stdout.
+ * The process is started by the first request and, after it exits, started
+ * again by the next one. When the request it works on hangs or is cancelled
+ * the process is restarted and the other requests are sent to the new one.
+ */
+export default class LivecodeWorker implements vscode.Disposable {
+
+    private process: cp.ChildProcess | undefined;
+    private executable: string | undefined;
+    private pending = new Map<number, PendingRequest>();
+    private nextId = 1;
+
+    constructor(private tool: string) {
+    }
+
+    /**
+     * Runs the tool on `text` with the given arguments and returns what it
+     * would have written to stdout. Rejects with the spawn error (with its
+     * `code`, e.g. ENOENT) when the executable cannot be started. When
+     * `token` is cancelled while the request runs, the process is restarted,
+     * as the worker cannot be interrupted otherwise.
+     */
+    public request(executable: string, args: string[], text: string, token?: vscode.CancellationToken): Promise<string> {
+        if (token && token.isCancellationRequested) {
+            return Promise.reject(new Error(`${this.tool} request was cancelled`));
+        }
+        const child = this.start(executable);
+        let cancellation: vscode.Disposable | undefined;
+        const request = new Promise<string>((resolve, reject) => {
+            const id = this.nextId++;
+            const abort = (error: Error) => {
+                const pending = this.pending.get(id);
+                if (!pending) {
+                    return;
+                }
+                // The worker answers in order: only the oldest request is being worked on
+                const running = this.pending.keys().next().value === id;
+                this.pending.delete(id);
+                clearTimeout(pending.timer);
+                reject(error);
+                if (running) {
+                    this.restart();
+                }
+            };
+            const timeout = () => abort(new Error(`${this.tool} did not answer within ${RequestTimeout / 1000} seconds`));
+            const line = `${id}\t${encode(args.join("\n"))}\t${encode(text)}\n`;
+            this.pending.set(id, { line, resolve, reject, timeout, timer: setTimeout(timeout, RequestTimeout) });
+            cancellation = token && token.onCancellationRequested(() => abort(new Error(`${this.tool} request was cancelled`)));
+            child.stdin!.write(line);
+        });
+        const settled = () => cancellation && cancellation.dispose();
+        request.then(settled, settled);
+        return request;
+    }
+
+    public dispose(): void {
+        this.stop();
+    }
+
+    private start(executable: string): cp.ChildProcess {
+        if (this.process && this.executable === executable) {
+            return this.process;
+        }
+        if (this.process) {
+            this.stop();
+        }
+
+        const script = path.resolve(__dirname, "../../../tools", this.tool).replace(/[\\]+/g, "/");
+        const options = (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0]) ? { cwd: vscode.workspace.workspaceFolders[0].uri.fsPath } : undefined;
+        const child = cp.spawn(executable, [script, "-worker"], options);
+        this.process = child;
+        this.executable = executable;
+
+        const decoder = new LineDecoder();
+        child.stdout!.on("data", (data: Buffer) => decoder.write(data).forEach(line => this.answer(line)));
+        child.stderr!.on("data", (data: Buffer) => console.error(`${this.tool}: ${data.toString()}`));
+        child.stdin!.on("error", () => {
+            // Reported through the process error and exit events
+        });
+        child.on("error", (error: Error) => this.exited(child, error));
+        child.on("exit", (code) => this.exited(child, new Error(`${this.tool} exited with code ${code}`)));
+        return child;
+    }
+
+    private answer(line: string): void {
+        const separator = line.indexOf("\t");
+        const id = parseInt(line.substring(0, separator));
+        const request = this.pending.get(id);
+        if (separator < 0 || !request) {
+            return;
+        }
+        this.pending.delete(id);
+        clearTimeout(request.timer);
+        request.resolve(Buffer.from(line.substring(separator + 1), "base64").toString("utf8"));
+    }
+
+    private exited(child: cp.ChildProcess, error: Error): void {
+        if (this.process !== child) {
+            return;
+        }
+        this.process = undefined;
+        this.rejectAll(error);
+    }
+
+    /** Replaces the process, sending the requests still waiting for an answer to the new one. */
+    private restart(): void {
+        const child = this.process;
+        this.process = undefined;
+        if (child) {
+            child.stdin!.end();
+            child.kill();
+        }
+        if (this.pending.size === 0 || !this.executable) {
+            return;
+        }
+        const next = this.start(this.executable);
+        for (const request of this.pending.values()) {
+            clearTimeout(request.timer);
+            request.timer = setTimeout(request.timeout, RequestTimeout);
+            next.stdin!.write(request.line);
+        }
+    }
+
+    private stop(): void {
+        const child = this.process;
+        this.process = undefined;
+        this.rejectAll(new Error(`${this.tool} was stopped`));
+        if (child) {
+            child.stdin!.end();
+            child.kill();
+        }
+    }
+
+    private rejectAll(error: Error): void {
+        for (const request of this.pending.values()) {
+            clearTimeout(request.timer);
+            request.reject(error);
+        }
+        this.pending.clear();
+    }
+}
+
+
+function encode(text: string): string {
+    return Buffer.from(text, "utf8").toString("base64");
+}
@@ -0,0 +1,35 @@
+import * as vscode from "vscode";
+
+
+/**
+ * Last words of the lines that close a structure in either language. An
+ * `end` line of a handler ends with any name, it is re-indented on Enter.
+ */
+const ClosingKeywords = ["else", "if", "repeat", "switch", "try", "default", "catch", "finally", "unsafe", "module", "library", "widget"];
+const ClosingExpression = new RegExp(`\\b(${ClosingKeywords.join("|")})$`, "i");
+
+/** The last letter of every closing keyword, in both cases. */
+export const OnTypeTriggerCharacters = ClosingKeywords
+    .map(keyword => keyword[keyword.length - 1])
+    .reduce((all, ch) => all.includes(ch) ? all : all.concat(ch, ch.toUpperCase()), [] as string[]);
+
+
+/** Whether the text typed up to `position` ends with a closing keyword. */
+export function endsWithClosingKeyword(document: vscode.TextDocument, position: vscode.Position): boolean {
+    return ClosingExpression.test(document.lineAt(position.line).text.slice(0, position.character));
+}
+
+
+export function indentationOf(document: vscode.TextDocument, line: number): string {
+    return /^\s*/.exec(document.lineAt(line).text)![0];
+}
+
+export function indentUnit(options: vscode.FormattingOptions): string {
+    return options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+}
+
+/** Replaces the leading white space of a line, when it differs. */
+export function reindent(document: vscode.TextDocument, line: number, indentation: string): vscode.TextEdit[] {
+    const current = indentationOf(document, line);
+    return current === indentation ? [] : [vscode.TextEdit.replace(new vscode.Range(line, 0, line, current.length), indentation)];
+}
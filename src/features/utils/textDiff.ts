@@ -0,0 +1,147 @@
+import * as vscode from "vscode";
+
+
+/** Above this many steps the diff gives up and replaces the changed part at once. */
+const MaxDiffCost = 4000000;
+
+interface Hunk {
+    /** Replaced lines of the original, `[originalStart, originalEnd)`. */
+    originalStart: number;
+    originalEnd: number;
+    /** Lines replacing them, `[modifiedStart, modifiedEnd)`. */
+    modifiedStart: number;
+    modifiedEnd: number;
+}
+
+
+/**
+ * Edits that turn `original`, the text of `range`, into `modified`, with one
+ * edit per run of changed lines, so that cursors, folds and breakpoints on
+ * unchanged lines stay where they are.
+ */
+export function minimalEdits(range: vscode.Range, original: string, modified: string): vscode.TextEdit[] {
+    const originalLines = splitLines(original);
+    const modifiedLines = splitLines(modified);
+    // Line breaks are compared without `\r`: the editor converts inserted text to the document's line endings
+    const originalKeys = originalLines.map(lineKey);
+    const modifiedKeys = modifiedLines.map(lineKey);
+
+    const position = (line: number) => line === 0 ? range.start : line === originalLines.length ? range.end : new vscode.Position(range.start.line + line, 0);
+    return diffLines(originalKeys, modifiedKeys).map(hunk => vscode.TextEdit.replace(
+        new vscode.Range(position(hunk.originalStart), position(hunk.originalEnd)),
+        modifiedLines.slice(hunk.modifiedStart, hunk.modifiedEnd).join("")));
+}
+
+
+/** Lines with their line break. */
+function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function lineKey(line: string): string {
+    return line.replace(/\r\n$/, "\n");
+}
+
+function diffLines(a: string[], b: string[]): Hunk[] {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+    if (start === endA && start === endB) {
+        return [];
+    }
+
+    // Formatting mostly keeps the number of lines, compare them one by one
+    if (endA - start === endB - start) {
+        const hunks: Hunk[] = [];
+        for (let index = start; index < endA; index++) {
+            if (a[index] === b[index]) {
+                continue;
+            }
+            const last = hunks[hunks.length - 1];
+            if (last && last.originalEnd === index) {
+                last.originalEnd++;
+                last.modifiedEnd++;
+            } else {
+                hunks.push({ originalStart: index, originalEnd: index + 1, modifiedStart: index, modifiedEnd: index + 1 });
+            }
+        }
+        return hunks;
+    }
+
+    return myers(a, b, start, endA, endB) ?? [{ originalStart: start, originalEnd: endA, modifiedStart: start, modifiedEnd: endB }];
+}
+
+/** Myers' O(ND) diff of `a[start, endA)` and `b[start, endB)`, undefined when it would cost too much. */
+function myers(a: string[], b: string[], start: number, endA: number, endB: number): Hunk[] | undefined {
+    const n = endA - start;
+    const m = endB - start;
+    const max = n + m;
+    const offset = max + 1;
+    let v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        if (d * (2 * max + 3) > MaxDiffCost) {
+            return undefined;
+        }
+        trace.push(v.slice());
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[start + x] === b[start + y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    // Walk back through the snapshots, collecting the changed lines from the end
+    const hunks: Hunk[] = [];
+    const change = (originalLine: number, modifiedLine: number, deleted: boolean) => {
+        const first = hunks[0];
+        const hunk = first && first.originalStart === originalLine + (deleted ? 1 : 0) && first.modifiedStart === modifiedLine + (deleted ? 0 : 1) ? first : undefined;
+        if (hunk) {
+            hunk.originalStart -= deleted ? 1 : 0;
+            hunk.modifiedStart -= deleted ? 0 : 1;
+        } else {
+            hunks.unshift(deleted
+                ? { originalStart: originalLine, originalEnd: originalLine + 1, modifiedStart: modifiedLine, modifiedEnd: modifiedLine }
+                : { originalStart: originalLine, originalEnd: originalLine, modifiedStart: modifiedLine, modifiedEnd: modifiedLine + 1 });
+        }
+    };
+
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        v = trace[d];
+        const k = x - y;
+        const previousK = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? k + 1 : k - 1;
+        const previousX = v[offset + previousK];
+        const previousY = previousX - previousK;
+        while (x > previousX && y > previousY) {
+            x--;
+            y--;
+        }
+        if (x === previousX) {
+            change(start + x, start + previousY, false);
+        } else {
+            change(start + previousX, start + y, true);
+        }
+        x = previousX;
+        y = previousY;
+    }
+    return hunks;
+}
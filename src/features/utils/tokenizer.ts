@@ -0,0 +1,231 @@
+import * as vscode from "vscode";
+
+
+export enum TokenKind {
+    Word,
+    Number,
+    String,
+    Operator,
+    Continuation,
+}
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    range: vscode.Range;
+}
+
+export interface Comment {
+    block: boolean;
+    text: string;
+    range: vscode.Range;
+}
+
+export interface TokenizedText {
+    /** Tokens of every physical line, comments excluded. */
+    lines: Token[][];
+    comments: Comment[];
+    strings: Token[];
+}
+
+export interface TokenizerOptions {
+    /** `#` starts a line comment (LiveCode Script only). */
+    hashComments?: boolean;
+    /** A trailing `\` joins the line with the next one. */
+    continuations?: boolean;
+    /** Text outside of `<?livecode ... ?>` tags is skipped. */
+    markup?: boolean;
+    /** Identifiers may contain dots, as in `com.livecode.foreign`. */
+    qualifiedNames?: boolean;
+    /** A backslash escapes the next character inside strings. */
+    stringEscapes?: boolean;
+}
+
+
+const WordExpression = /[A-Za-z_$À-￿][\wÀ-￿]*/y;
+const QualifiedWordExpression = /[A-Za-z_$À-￿][\wÀ-￿]*(?:\.[A-Za-z_À-￿][\wÀ-￿]*)*/y;
+const NumberExpression = /0x[0-9a-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/iy;
+const OperatorExpression = /&&|<>|<=|>=|!=|==|[^\s]/y;
+const OpenTagExpression = /<\?(?:livecode|lc|rev)?/iy;
+const IdentifierExpression = new RegExp(`^(?:${WordExpression.source})$`);
+
+
+export function sameName(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Whether `text` is read as a single word, such as a handler or variable name. */
+export function isIdentifier(text: string): boolean {
+    return IdentifierExpression.test(text);
+}
+
+export function isWord(token: Token | undefined, word?: string): boolean {
+    return token !== undefined && token.kind === TokenKind.Word && (word === undefined || sameName(token.text, word));
+}
+
+export function unquote(token: Token): string {
+    return token.text.replace(/^"/, "").replace(/"$/, "");
+}
+
+
+export function tokenize(text: string, options: TokenizerOptions): TokenizedText {
+    const lines = text.split(/\r\n|\r|\n/);
+    const result: TokenizedText = { lines: [], comments: [], strings: [] };
+    const wordExpression = options.qualifiedNames ? QualifiedWordExpression : WordExpression;
+    let blockComment: { start: vscode.Position, text: string } | undefined;
+    let inMarkup = false;
+
+    for (let line = 0; line < lines.length; line++) {
+        const source = lines[line];
+        const tokens: Token[] = [];
+        let index = 0;
+
+        while (index < source.length) {
+            if (blockComment) {
+                const close = source.indexOf("*/", index);
+                if (close < 0) {
+                    blockComment.text += source.substring(index);
+                    break;
+                }
+                blockComment.text += source.substring(index, close + 2);
+                result.comments.push({
+                    block: true,
+                    text: blockComment.text,
+                    range: new vscode.Range(blockComment.start, new vscode.Position(line, close + 2)),
+                });
+                blockComment = undefined;
+                index = close + 2;
+                continue;
+            }
+
+            if (inMarkup) {
+                const open = source.indexOf("<?", index);
+                if (open < 0) {
+                    break;
+                }
+                inMarkup = false;
+                index = open;
+                continue;
+            }
+
+            const char = source[index];
+            if (char === " " || char === "\t") {
+                index++;
+                continue;
+            }
+
+            if (options.markup && source.startsWith("<?", index)) {
+                index = match(OpenTagExpression, source, index);
+                continue;
+            }
+            if (options.markup && source.startsWith("?>", index)) {
+                inMarkup = true;
+                index += 2;
+                continue;
+            }
+
+            if (source.startsWith("--", index) || source.startsWith("//", index) || (options.hashComments && char === "#")) {
+                result.comments.push({
+                    block: false,
+                    text: source.substring(index),
+                    range: new vscode.Range(line, index, line, source.length),
+                });
+                break;
+            }
+
+            if (source.startsWith("/*", index)) {
+                blockComment = { start: new vscode.Position(line, index), text: "/*" };
+                index += 2;
+                continue;
+            }
+
+            let kind: TokenKind;
+            let end: number;
+            if (char === "\"") {
+                kind = TokenKind.String;
+                end = index + 1;
+                while (end < source.length && source[end] !== "\"") {
+                    end += options.stringEscapes && source[end] === "\\" ? 2 : 1;
+                }
+                end = Math.min(end + 1, source.length);
+            } else if (char === "\\" && options.continuations) {
+                kind = TokenKind.Continuation;
+                end = index + 1;
+            } else if ((end = match(wordExpression, source, index)) > index) {
+                kind = TokenKind.Word;
+            } else if ((end = match(NumberExpression, source, index)) > index) {
+                kind = TokenKind.Number;
+            } else {
+                kind = TokenKind.Operator;
+                end = match(OperatorExpression, source, index);
+            }
+
+            const token: Token = { kind, text: source.substring(index, end), range: new vscode.Range(line, index, line, end) };
+            if (kind === TokenKind.String) {
+                result.strings.push(token);
+            }
+            tokens.push(token);
+            index = end;
+        }
+
+        if (blockComment) {
+            blockComment.text += "\n";
+        }
+        result.lines.push(tokens);
+    }
+
+    if (blockComment) {
+        const last = lines.length - 1;
+        result.comments.push({
+            block: true,
+            text: blockComment.text,
+            range: new vscode.Range(blockComment.start, new vscode.Position(last, lines[last].length)),
+        });
+    }
+
+    return result;
+}
+
+function match(expression: RegExp, source: string, index: number): number {
+    expression.lastIndex = index;
+    return expression.test(source) ? expression.lastIndex : index;
+}
+
+
+/**
+ * Groups the tokens of each line into statements: a trailing continuation
+ * joins a line with the next one and `;` separates statements on a line.
+ */
+export function groupStatements(lines: Token[][]): { tokens: Token[], range: vscode.Range }[] {
+    const statements: { tokens: Token[], range: vscode.Range }[] = [];
+    let current: Token[] = [];
+
+    const flush = () => {
+        if (current.length > 0) {
+            const first = current[0].range;
+            const last = current[current.length - 1].range;
+            statements.push({ tokens: current, range: new vscode.Range(first.start, last.end) });
+            current = [];
+        }
+    };
+
+    for (const tokens of lines) {
+        let continued = false;
+        for (const token of tokens) {
+            continued = false;
+            if (token.kind === TokenKind.Continuation) {
+                continued = true;
+            } else if (token.kind === TokenKind.Operator && token.text === ";") {
+                flush();
+            } else {
+                current.push(token);
+            }
+        }
+        if (!continued) {
+            flush();
+        }
+    }
+    flush();
+
+    return statements;
+}
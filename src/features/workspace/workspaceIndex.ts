@@ -0,0 +1,228 @@
+import * as path from 'path';
+import * as vscode from "vscode";
+import * as LCS from "../livecodescript/LCSparser";
+import * as LCB from "../livecodebuilder/LCBparser";
+import { HandlerSymbolKinds } from "../livecodescript/LCSsymbolProvider";
+import { sameName } from "../utils/tokenizer";
+
+
+const FileGlob = "**/*.{livecodescript,lc,irev,lcb}";
+const Languages: { [extension: string]: "livecodescript" | "livecodebuilder" } = {
+    ".livecodescript": "livecodescript",
+    ".lc": "livecodescript",
+    ".irev": "livecodescript",
+    ".lcb": "livecodebuilder",
+};
+const ExcludeGlob = "**/node_modules/**";
+
+export type IndexEntry =
+    | { language: "livecodescript", uri: vscode.Uri, version?: number, script: LCS.Script }
+    | { language: "livecodebuilder", uri: vscode.Uri, version?: number, module: LCB.Module };
+
+export interface IndexedSymbol {
+    name: string;
+    kind: vscode.SymbolKind;
+    containerName: string;
+    location: vscode.Location;
+    /** Whether the symbol can be used from other scripts or modules. */
+    exported: boolean;
+}
+
+
+/** The language of a file matched by the index globs, undefined for any other file. */
+export function languageOf(uri: vscode.Uri): "livecodescript" | "livecodebuilder" | undefined {
+    const extension = path.extname(uri.fsPath).toLowerCase();
+    return Languages.hasOwnProperty(extension) ? Languages[extension] : undefined;
+}
+
+
+/**
+ * Keeps a parsed copy of every LiveCode file in the workspace. Files are read
+ * from disk in the background and kept up to date through a file watcher;
+ * open documents always take precedence over their saved content.
+ */
+export default class LivecodeWorkspaceIndex {
+    private entries = new Map<string, IndexEntry>();
+    private changedEmitter = new vscode.EventEmitter<vscode.Uri[]>();
+    public ready: Promise<void> = Promise.resolve();
+
+    /** Fires with the files read again from disk or removed from the index. */
+    public readonly onDidChange = this.changedEmitter.event;
+
+    public activate(subscriptions: vscode.Disposable[]) {
+        subscriptions.push(this);
+
+        const watcher = vscode.workspace.createFileSystemWatcher(FileGlob);
+        watcher.onDidCreate(this.updateFile, this, subscriptions);
+        watcher.onDidChange(this.updateFile, this, subscriptions);
+        watcher.onDidDelete((uri) => {
+            this.entries.delete(uri.toString());
+            this.changedEmitter.fire([uri]);
+        }, null, subscriptions);
+        subscriptions.push(watcher);
+
+        vscode.workspace.onDidCloseTextDocument((document) => {
+            if (document.uri.scheme === "file" && languageOf(document.uri)) {
+                this.updateFile(document.uri);
+            }
+        }, null, subscriptions);
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this.ready = this.indexWorkspace(), null, subscriptions);
+
+        this.ready = this.indexWorkspace();
+    }
+
+    public dispose(): void {
+        this.entries.clear();
+        this.changedEmitter.dispose();
+    }
+
+    public all(): IndexEntry[] {
+        this.refreshOpenDocuments();
+        return Array.from(this.entries.values());
+    }
+
+    public scripts(): { uri: vscode.Uri, script: LCS.Script }[] {
+        return this.all().filter((entry): entry is Extract<IndexEntry, { language: "livecodescript" }> => entry.language === "livecodescript");
+    }
+
+    public modules(): { uri: vscode.Uri, module: LCB.Module }[] {
+        return this.all().filter((entry): entry is Extract<IndexEntry, { language: "livecodebuilder" }> => entry.language === "livecodebuilder");
+    }
+
+    public symbols(): IndexedSymbol[] {
+        const symbols: IndexedSymbol[] = [];
+        for (const entry of this.all()) {
+            if (entry.language === "livecodescript") {
+                symbols.push(...scriptSymbols(entry.uri, entry.script));
+            } else {
+                symbols.push(...moduleSymbols(entry.uri, entry.module));
+            }
+        }
+        return symbols;
+    }
+
+    /**
+     * Locations of the exported symbols called `name` in every file of the
+     * given language.
+     */
+    public findDefinitions(name: string, language: "livecodescript" | "livecodebuilder"): vscode.Location[] {
+        return this.all()
+            .filter(entry => entry.language === language)
+            .map(entry => entry.language === "livecodescript" ? scriptSymbols(entry.uri, entry.script) : moduleSymbols(entry.uri, entry.module))
+            .reduce((all, symbols) => all.concat(symbols), [])
+            .filter(symbol => symbol.exported && sameName(symbol.name, name))
+            .map(symbol => symbol.location);
+    }
+
+    private async indexWorkspace(): Promise<void> {
+        const removed: vscode.Uri[] = [];
+        for (const [key, entry] of Array.from(this.entries)) {
+            if (!vscode.workspace.getWorkspaceFolder(entry.uri)) {
+                this.entries.delete(key);
+                removed.push(entry.uri);
+            }
+        }
+        const uris = await vscode.workspace.findFiles(FileGlob, ExcludeGlob);
+        for (const uri of uris) {
+            await this.indexFile(uri);
+        }
+        this.changedEmitter.fire([...removed, ...uris]);
+    }
+
+    private async updateFile(uri: vscode.Uri): Promise<void> {
+        await this.indexFile(uri);
+        this.changedEmitter.fire([uri]);
+    }
+
+    private async indexFile(uri: vscode.Uri): Promise<void> {
+        const language = languageOf(uri);
+        if (!language) {
+            return;
+        }
+        const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+        if (open && !open.isClosed) {
+            this.indexDocument(open);
+            return;
+        }
+
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+        } catch (error) {
+            this.entries.delete(uri.toString());
+            return;
+        }
+        this.entries.set(uri.toString(), language === "livecodebuilder"
+            ? { language: "livecodebuilder", uri, module: LCB.parseModule(text) }
+            : { language: "livecodescript", uri, script: LCS.parseScript(text) });
+    }
+
+    private indexDocument(document: vscode.TextDocument): void {
+        if (document.languageId === "livecodescript") {
+            this.entries.set(document.uri.toString(), { language: "livecodescript", uri: document.uri, version: document.version, script: LCS.parseDocument(document) });
+        } else if (document.languageId === "livecodebuilder") {
+            this.entries.set(document.uri.toString(), { language: "livecodebuilder", uri: document.uri, version: document.version, module: LCB.parseDocument(document) });
+        }
+    }
+
+    private refreshOpenDocuments(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.uri.scheme !== "file" || (document.languageId !== "livecodescript" && document.languageId !== "livecodebuilder")) {
+                continue;
+            }
+            if (this.entries.get(document.uri.toString())?.version !== document.version) {
+                this.indexDocument(document);
+            }
+        }
+    }
+}
+
+
+function scriptSymbols(uri: vscode.Uri, script: LCS.Script): IndexedSymbol[] {
+    const containerName = script.name ?? path.basename(uri.fsPath);
+    const symbols: IndexedSymbol[] = script.handlers.map(handler => ({
+        name: handler.name,
+        kind: HandlerSymbolKinds[handler.kind],
+        containerName,
+        location: new vscode.Location(uri, handler.nameRange),
+        exported: !handler.private,
+    }));
+
+    for (const declaration of script.declarations) {
+        if (declaration.kind === "local") {
+            continue;
+        }
+        symbols.push({
+            name: declaration.name,
+            kind: declaration.kind === "constant" ? vscode.SymbolKind.Constant : vscode.SymbolKind.Variable,
+            containerName,
+            location: new vscode.Location(uri, declaration.range),
+            exported: declaration.kind === "global",
+        });
+    }
+    return symbols;
+}
+
+
+function moduleSymbols(uri: vscode.Uri, module: LCB.Module): IndexedSymbol[] {
+    const containerName = module.name ?? path.basename(uri.fsPath);
+    const symbols: IndexedSymbol[] = [];
+
+    if (module.name && module.nameRange) {
+        symbols.push({ name: module.name, kind: vscode.SymbolKind.Module, containerName: "", location: new vscode.Location(uri, module.nameRange), exported: true });
+    }
+    for (const handler of module.handlers) {
+        symbols.push({ name: handler.name, kind: vscode.SymbolKind.Method, containerName, location: new vscode.Location(uri, handler.nameRange), exported: handler.public });
+    }
+    for (const syntax of module.syntaxes) {
+        symbols.push({ name: syntax.name, kind: vscode.SymbolKind.Operator, containerName, location: new vscode.Location(uri, syntax.nameRange), exported: syntax.public });
+    }
+    for (const declaration of module.declarations) {
+        if (declaration.kind === "variable") {
+            continue;
+        }
+        const kind = declaration.kind === "constant" ? vscode.SymbolKind.Constant : declaration.kind === "property" ? vscode.SymbolKind.Property : vscode.SymbolKind.TypeParameter;
+        symbols.push({ name: declaration.name, kind, containerName, location: new vscode.Location(uri, declaration.range), exported: declaration.public || declaration.kind === "property" });
+    }
+    return symbols;
+}
@@ -0,0 +1,122 @@
+import * as vscode from "vscode";
+import LivecodescriptValidationProvider from "../livecodescript/LCSvalidationProvider";
+import LivecodebuilderValidationProvider from "../livecodebuilder/LCBvalidationProvider";
+import { languageOf } from "./workspaceIndex";
+
+
+const enum Setting {
+    Include = "livecode.lintWorkspace.include",
+    Exclude = "livecode.lintWorkspace.exclude",
+    Continuous = "livecode.lintWorkspace.continuous",
+}
+
+const DefaultInclude = ["**/*.livecodescript", "**/*.lc", "**/*.irev", "**/*.lcb"];
+const DefaultExclude = "**/node_modules/**";
+
+/** Settings that change which diagnostics the validators report. */
+const AffectingSections = ["livecode.lintWorkspace", "livecodescript", "livecodebuilder"];
+
+
+/**
+ * Validates every LiveCode file of the workspace with the validation
+ * providers, so that problems in files that are not open are reported too.
+ * Runs on the `livecode.lintWorkspace` command, and on every file change
+ * when `livecode.lintWorkspace.continuous` is set.
+ */
+export default class LivecodeWorkspaceLinter {
+    private running: vscode.CancellationTokenSource | undefined;
+    private watcher: vscode.Disposable[] = [];
+
+    constructor(
+        private scriptValidator: LivecodescriptValidationProvider,
+        private builderValidator: LivecodebuilderValidationProvider) {
+    }
+
+    public activate(subscriptions: vscode.Disposable[]) {
+        subscriptions.push(this);
+        subscriptions.push(vscode.commands.registerCommand("livecode.lintWorkspace", () => this.lintWorkspace(vscode.ProgressLocation.Notification)));
+        vscode.workspace.onDidChangeConfiguration((e) => {
+            if (AffectingSections.some(section => e.affectsConfiguration(section))) {
+                this.loadConfiguration();
+            }
+        }, null, subscriptions);
+        this.loadConfiguration();
+    }
+
+    public dispose(): void {
+        this.running?.cancel();
+        this.stopWatching();
+    }
+
+    private loadConfiguration(): void {
+        this.stopWatching();
+        if (!vscode.workspace.getConfiguration().get<boolean>(Setting.Continuous, false)) {
+            return;
+        }
+
+        const watcher = vscode.workspace.createFileSystemWatcher(includePattern());
+        watcher.onDidCreate(this.lintFile, this, this.watcher);
+        watcher.onDidChange(this.lintFile, this, this.watcher);
+        watcher.onDidDelete((uri) => {
+            this.scriptValidator.forget(uri);
+            this.builderValidator.forget(uri);
+        }, null, this.watcher);
+        this.watcher.push(watcher);
+
+        this.lintWorkspace(vscode.ProgressLocation.Window);
+    }
+
+    private stopWatching(): void {
+        this.watcher.forEach(disposable => disposable.dispose());
+        this.watcher = [];
+    }
+
+    private lintWorkspace(location: vscode.ProgressLocation): Thenable<void> {
+        this.running?.cancel();
+        const source = new vscode.CancellationTokenSource();
+        this.running = source;
+
+        return vscode.window.withProgress({ location, title: "Linting LiveCode workspace", cancellable: true }, async (progress, token) => {
+            token.onCancellationRequested(() => source.cancel());
+            const uris = await vscode.workspace.findFiles(includePattern(), excludePattern(), undefined, source.token);
+            for (const uri of uris) {
+                if (source.token.isCancellationRequested) {
+                    break;
+                }
+                progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / uris.length });
+                await this.lintFile(uri);
+            }
+            if (this.running === source) {
+                this.running = undefined;
+            }
+            source.dispose();
+        });
+    }
+
+    private async lintFile(uri: vscode.Uri): Promise<void> {
+        const validator = languageOf(uri) === "livecodebuilder" ? this.builderValidator : this.scriptValidator;
+        let document: vscode.TextDocument;
+        try {
+            document = await validator.openWorkspaceDocument(uri);
+        } catch (error) {
+            return;
+        }
+        // The file watcher only knows the include patterns
+        const exclude = excludePattern();
+        if (exclude && vscode.languages.match({ pattern: exclude }, document)) {
+            return;
+        }
+
+        await validator.validateWorkspaceDocument(document);
+    }
+}
+
+
+function includePattern(): string {
+    const include = vscode.workspace.getConfiguration().get<string[]>(Setting.Include, DefaultInclude);
+    return include.length === 1 ? include[0] : `{${include.join(",")}}`;
+}
+
+function excludePattern(): string | undefined {
+    return vscode.workspace.getConfiguration().get<string>(Setting.Exclude, DefaultExclude) || undefined;
+}
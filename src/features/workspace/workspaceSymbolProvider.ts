@@ -0,0 +1,34 @@
+import * as vscode from "vscode";
+import LivecodeWorkspaceIndex from "./workspaceIndex";
+
+
+export class LivecodeWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+
+    constructor(private index: LivecodeWorkspaceIndex) {
+    }
+
+    public async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        await this.index.ready;
+
+        return this.index.symbols()
+            .filter(symbol => matchesQuery(symbol.name, query))
+            .map(symbol => new vscode.SymbolInformation(symbol.name, symbol.kind, symbol.containerName, symbol.location));
+    }
+}
+
+
+/**
+ * Case insensitive subsequence match, the same relaxed matching the
+ * quick open widget applies afterwards.
+ */
+function matchesQuery(name: string, query: string): boolean {
+    const target = name.toLowerCase();
+    let index = 0;
+    for (const char of query.toLowerCase()) {
+        index = target.indexOf(char, index) + 1;
+        if (index === 0) {
+            return false;
+        }
+    }
+    return true;
+}
@@ -0,0 +1,49 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { formatScript, formatterOptions } from "../../features/livecodescript/LCSformatter";
+
+
+/*
+ * Every `<name>.livecodescript` fixture sits next to its expected output for
+ * each configuration, in `<name>.<configuration>.expected`. The expected
+ * files were written by hand following the indentation rules of
+ * `tools/Formatter.lc` (`_indentation`), not produced by running it.
+ *
+ * `Formatter.lc` also normalizes the spacing inside lines, which the port
+ * does not (see LCSformatter.ts): the `spacing` fixture checks that it is
+ * kept as it is, every other fixture writes its lines with the spacing
+ * `Formatter.lc` would produce.
+ */
+const FixturesFolder = path.join(__dirname, "..", "..", "..", "src", "test", "fixtures", "formatter");
+
+const Configurations: { [name: string]: { indentation: string, indentationSize: string } } = {
+    "tab": { indentation: "tab", indentationSize: "1" },
+    "spaces-3": { indentation: "spaces", indentationSize: "3" },
+};
+
+
+suite("LCSformatter", () => {
+    const fixtures = fs.readdirSync(FixturesFolder).filter(file => file.endsWith(".livecodescript"));
+
+    for (const fixture of fixtures) {
+        const name = path.basename(fixture, ".livecodescript");
+        const text = fs.readFileSync(path.join(FixturesFolder, fixture), "utf8");
+
+        for (const configuration of Object.keys(Configurations)) {
+            const settings = Configurations[configuration];
+            test(`indents ${name} with ${configuration}`, () => {
+                const expected = fs.readFileSync(path.join(FixturesFolder, `${name}.${configuration}.expected`), "utf8");
+                assert.strictEqual(formatScript(text, formatterOptions(settings.indentation, settings.indentationSize)), expected);
+            });
+        }
+    }
+
+    test("writes LF line breaks for CRLF input", () => {
+        assert.strictEqual(formatScript("on test\r\nbeep\r\nend test\r\n", formatterOptions("spaces", "2")), "on test\n  beep\nend test\n");
+    });
+
+    test("falls back to 2 spaces for an invalid size", () => {
+        assert.strictEqual(formatScript("on test\nbeep\nend test", formatterOptions("spaces", "")), "on test\n  beep\nend test\n");
+    });
+});
@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { parseScript } from "../../features/livecodescript/LCSparser";
+import { lintScript } from "../../features/livecodescript/LCSlintRules";
+
+
+/** `[rule, line]` of every diagnostic of the script. */
+function lint(lines: string[]): [string | number | undefined, number][] {
+    return lintScript(parseScript(lines.join("\n"))).map(diagnostic => [diagnostic.code as string, diagnostic.range.start.line]);
+}
+
+
+suite("LCSlintRules", () => {
+    test("reports nothing on a clean script", () => {
+        assert.deepStrictEqual(lint([
+            "local sCount",
+            "on mouseUp pButton",
+            "   add pButton to sCount",
+            "   repeat with i = 1 to sCount",
+            "      if i = 2 then exit repeat",
+            "   end repeat",
+            "end mouseUp",
+        ]), []);
+    });
+
+    test("reports ends that do not match their handler or close nothing", () => {
+        assert.deepStrictEqual(lint([
+            "on test",
+            "end other",
+            "end if",
+        ]), [["mismatched-end", 1], ["mismatched-end", 2]]);
+    });
+
+    test("reports unclosed handlers and blocks", () => {
+        const diagnostics = lintScript(parseScript(["on test", "   repeat forever", "      beep"].join("\n")));
+        assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity]), [
+            ["unclosed-block", vscode.DiagnosticSeverity.Error],
+            ["unclosed-block", vscode.DiagnosticSeverity.Error],
+        ]);
+        assert.strictEqual(diagnostics[1].range.start.character, 3);
+        assert.strictEqual(diagnostics[1].range.end.character, 9);
+    });
+
+    test("reports handlers defined twice in the same name space", () => {
+        assert.deepStrictEqual(lint([
+            "on test",
+            "end test",
+            "function test",
+            "   return 1",
+            "end test",
+            "command TEST",
+            "end TEST",
+        ]), [["duplicate-handler", 5]]);
+    });
+
+    test("reports unused locals and parameters as unnecessary", () => {
+        const diagnostics = lintScript(parseScript([
+            "local sUnused",
+            "on test pUsed, pUnused",
+            "   local tUnused",
+            "   put pUsed into field 1",
+            "end test",
+        ].join("\n")));
+        assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range.start.line, diagnostic.severity]), [
+            ["unused-local", 0, vscode.DiagnosticSeverity.Warning],
+            ["unused-local", 2, vscode.DiagnosticSeverity.Warning],
+            ["unused-parameter", 1, vscode.DiagnosticSeverity.Hint],
+        ]);
+        assert.ok(diagnostics.every(diagnostic => diagnostic.tags?.includes(vscode.DiagnosticTag.Unnecessary)));
+    });
+
+    test("does not report parameters of handlers reading param()", () => {
+        assert.deepStrictEqual(lint([
+            "on test pFirst",
+            "   put param(1) into field 1",
+            "end test",
+        ]), []);
+    });
+
+    test("reports code after a jump up to the end of its block", () => {
+        assert.deepStrictEqual(lint([
+            "function test pValue",
+            "   if pValue then",
+            "      return 1",
+            "      beep",
+            "      beep",
+            "   else",
+            "      return 2",
+            "   end if",
+            "   return 3",
+            "   beep",
+            "end test",
+        ]), [["unreachable-code", 3], ["unreachable-code", 9]]);
+    });
+
+    test("reports exit repeat and next repeat outside of a loop", () => {
+        assert.deepStrictEqual(lint([
+            "on test",
+            "   if true then",
+            "      next repeat",
+            "   end if",
+            "   exit repeat",
+            "end test",
+        ]), [["exit-repeat-outside-loop", 2], ["exit-repeat-outside-loop", 4]]);
+    });
+});
@@ -0,0 +1,139 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { handlerAt, handlerSignature, isIdentifier, lookupName, parseScript } from "../../features/livecodescript/LCSparser";
+
+
+suite("LCSparser", () => {
+    test("reads handlers with their parameters and end", () => {
+        const script = parseScript([
+            "on mouseUp pButton",
+            "   put pButton into tButton",
+            "end mouseUp",
+            "",
+            "private function sum pA, @pB",
+            "   return pA + pB",
+            "end sum",
+        ].join("\n"));
+
+        assert.deepStrictEqual(script.handlers.map(handler => [handler.kind, handler.name, handler.private]), [
+            ["on", "mouseUp", false],
+            ["function", "sum", true],
+        ]);
+        const sum = script.handlers[1];
+        assert.deepStrictEqual(sum.parameters.map(parameter => [parameter.name, parameter.byReference]), [["pA", false], ["pB", true]]);
+        assert.strictEqual(sum.end?.range.start.line, 6);
+        assert.strictEqual(handlerSignature(sum), "private function sum pA, @pB");
+        assert.strictEqual(handlerAt(script, new vscode.Position(5, 3)), sum);
+        assert.strictEqual(handlerAt(script, new vscode.Position(3, 0)), undefined);
+    });
+
+    test("separates script and handler declarations", () => {
+        const script = parseScript([
+            "local sCount",
+            "constant kMax = 10",
+            "on test",
+            "   local tValue, tOther",
+            "   global gState",
+            "end test",
+        ].join("\n"));
+
+        assert.deepStrictEqual(script.declarations.map(declaration => [declaration.kind, declaration.name]), [["local", "sCount"], ["constant", "kMax"]]);
+        assert.deepStrictEqual(script.handlers[0].declarations.map(declaration => [declaration.kind, declaration.name]), [
+            ["local", "tValue"], ["local", "tOther"], ["global", "gState"],
+        ]);
+        assert.strictEqual(lookupName(script, "tvalue", new vscode.Position(4, 3))?.kind, "local");
+        assert.strictEqual(lookupName(script, "tValue", new vscode.Position(0, 0)), undefined);
+        assert.strictEqual(lookupName(script, "SCOUNT")?.kind, "local");
+    });
+
+    test("nests control structures and records their branches", () => {
+        const script = parseScript([
+            "on test pValue",
+            "   if pValue then",
+            "      repeat with i = 1 to 3",
+            "         next repeat",
+            "      end repeat",
+            "   else",
+            "      switch pValue",
+            "         case 1",
+            "            break",
+            "         default",
+            "      end switch",
+            "   end if",
+            "end test",
+        ].join("\n"));
+
+        assert.deepStrictEqual(script.blocks.map(block => [block.kind, block.closed, block.parent?.kind]), [
+            ["if", true, undefined],
+            ["repeat", true, "if"],
+            ["switch", true, "if"],
+        ]);
+        assert.deepStrictEqual(script.blocks[0].branches.map(branch => branch.range.start.line), [5]);
+        assert.deepStrictEqual(script.blocks[2].branches.map(branch => branch.range.start.line), [7, 9]);
+        const next = script.statements.find(statement => statement.range.start.line === 3);
+        assert.strictEqual(next?.block, script.blocks[1]);
+    });
+
+    test("keeps a single line if open only when it continues on the next line", () => {
+        const script = parseScript([
+            "on test",
+            "   if true then beep",
+            "   if true then",
+            "      beep",
+            "   end if",
+            "end test",
+        ].join("\n"));
+
+        assert.strictEqual(script.blocks.length, 1);
+        assert.strictEqual(script.blocks[0].range.start.line, 2);
+        assert.ok(script.blocks[0].closed);
+    });
+
+    test("joins continuation lines and splits statements on semicolons", () => {
+        const script = parseScript([
+            "on test",
+            "   put \"a\" & \\",
+            "      \"b\" into tText; beep",
+            "end test",
+        ].join("\n"));
+
+        const statements = script.handlers[0].statements.filter(statement => statement !== script.handlers[0].header && statement !== script.handlers[0].end);
+        assert.deepStrictEqual(statements.map(statement => statement.tokens[0].text), ["put", "beep"]);
+        assert.strictEqual(statements[0].range.start.line, 1);
+        assert.strictEqual(statements[0].range.end.line, 2);
+    });
+
+    test("ignores keywords in comments and strings", () => {
+        const script = parseScript([
+            "-- on commented",
+            "/* on blockCommented",
+            "end blockCommented */",
+            "on test",
+            "   put \"end test\" into tText # end test",
+            "end test",
+        ].join("\n"));
+
+        assert.deepStrictEqual(script.handlers.map(handler => handler.name), ["test"]);
+        assert.strictEqual(script.handlers[0].end?.range.start.line, 5);
+        assert.strictEqual(script.comments.length, 3);
+        assert.deepStrictEqual(script.strings.map(token => token.text), ["\"end test\""]);
+    });
+
+    test("records unclosed handlers and stray ends", () => {
+        const script = parseScript([
+            "end nothing",
+            "on test",
+            "   if true then",
+            "      beep",
+        ].join("\n"));
+
+        assert.deepStrictEqual(script.strayEnds.map(end => end.range.start.line), [0]);
+        assert.strictEqual(script.handlers[0].end, undefined);
+        assert.strictEqual(script.blocks[0].closed, false);
+    });
+
+    test("reads names the way the tokenizer reads words", () => {
+        assert.deepStrictEqual(["tCafé", "_private", "$argv", "été2"].map(isIdentifier), [true, true, true, true]);
+        assert.deepStrictEqual(["2x", "a-b", "a b", ""].map(isIdentifier), [false, false, false, false]);
+    });
+});
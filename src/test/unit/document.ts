@@ -0,0 +1,45 @@
+import * as vscode from "vscode";
+
+
+/** A read only text document of `text`, with the members the tested modules use. */
+export function createDocument(text: string, fsPath = "/workspace/test.livecodescript"): vscode.TextDocument {
+    const lines = text.split(/\r?\n/);
+    const eol = text.includes("\r\n") ? vscode.EndOfLine.CRLF : vscode.EndOfLine.LF;
+    const lineAt = (line: number | vscode.Position) => {
+        const index = typeof line === "number" ? line : line.line;
+        const lineText = lines[index];
+        const start = new vscode.Position(index, 0);
+        const end = new vscode.Position(index, lineText.length);
+        return {
+            lineNumber: index,
+            text: lineText,
+            range: new vscode.Range(start, end),
+            rangeIncludingLineBreak: index < lines.length - 1 ? new vscode.Range(start, new vscode.Position(index + 1, 0)) : new vscode.Range(start, end),
+            firstNonWhitespaceCharacterIndex: lineText.search(/\S|$/),
+            isEmptyOrWhitespace: lineText.trim() === "",
+        };
+    };
+
+    const document = {
+        uri: vscode.Uri.file(fsPath),
+        fileName: fsPath,
+        languageId: "livecodescript",
+        version: 1,
+        eol,
+        lineCount: lines.length,
+        getText: () => text,
+        lineAt,
+        getWordRangeAtPosition(position: vscode.Position) {
+            const lineText = lines[position.line] ?? "";
+            const expression = /[\w-]+/g;
+            let match: RegExpExecArray | null;
+            while ((match = expression.exec(lineText))) {
+                if (match.index <= position.character && position.character <= match.index + match[0].length) {
+                    return new vscode.Range(new vscode.Position(position.line, match.index), new vscode.Position(position.line, match.index + match[0].length));
+                }
+            }
+            return undefined;
+        },
+    };
+    return document as unknown as vscode.TextDocument;
+}
@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { LintRecord, lintRecordsToDiagnostics, lintRecordToDiagnostic, parseLintRecord } from "../../features/utils/lintRecords";
+import { createDocument } from "./document";
+
+
+const document = createDocument([
+    "module com.example.test",
+    "use com.example.other",
+    "public handler Test() returns nothing",
+    "   variable tValue as Number",
+    "end handler",
+    "end module",
+].join("\n"), "/workspace/test.lcb");
+
+
+suite("lintRecords", () => {
+    test("parses a JSON record per line", () => {
+        assert.deepStrictEqual(parseLintRecord('{"line":3,"column":2,"severity":"warning","code":341,"message":"a \\"quoted\\"\\r\\nmessage\\u0007"}'), {
+            line: 3, column: 2, severity: "warning", code: 341, message: "a \"quoted\"\r\nmessage\u0007",
+        });
+    });
+
+    test("rejects lines that are not records", () => {
+        assert.strictEqual(parseLintRecord("test.lcb:3:2: error: unknown"), undefined);
+        assert.strictEqual(parseLintRecord("{\"line\":3,"), undefined);
+        assert.strictEqual(parseLintRecord("{\"line\":\"3\",\"message\":\"\"}"), undefined);
+        assert.strictEqual(parseLintRecord("{\"line\":3}"), undefined);
+    });
+
+    test("places a record on its columns, its word or its whole line", () => {
+        const range = (record: Partial<LintRecord>) => {
+            const diagnostic = lintRecordToDiagnostic({ line: 4, message: "", ...record }, document, "test");
+            return [diagnostic.range.start.line, diagnostic.range.start.character, diagnostic.range.end.line, diagnostic.range.end.character];
+        };
+        assert.deepStrictEqual(range({ column: 13, endColumn: 19 }), [3, 12, 3, 18]);
+        assert.deepStrictEqual(range({ column: 15 }), [3, 12, 3, 18]);
+        assert.deepStrictEqual(range({}), [3, 0, 3, 28]);
+        assert.deepStrictEqual(range({ line: 40 }), [5, 0, 5, 10]);
+    });
+
+    test("keeps the code, severity and token of a record", () => {
+        const diagnostic = lintRecordToDiagnostic({ line: 1, code: 12, severity: "hint", message: "Unexpected", token: "foo" }, document, "test");
+        assert.strictEqual(diagnostic.message, "Unexpected (foo)");
+        assert.strictEqual(diagnostic.code, 12);
+        assert.strictEqual(diagnostic.severity, vscode.DiagnosticSeverity.Hint);
+        assert.strictEqual(diagnostic.source, "test");
+        assert.strictEqual(lintRecordToDiagnostic({ line: 1, message: "" }, document, "test").severity, vscode.DiagnosticSeverity.Error);
+    });
+
+    test("turns notes into related information of the diagnostic before them", () => {
+        const diagnostics = lintRecordsToDiagnostics([
+            { line: 1, severity: "note", message: "dropped" },
+            { line: 4, column: 4, severity: "error", message: "first" },
+            { line: 2, column: 1, severity: "note", message: "declared here", file: "/workspace/test.lcb" },
+            { line: 7, column: 1, severity: "note", message: "also here", file: "other.lcb" },
+        ], document, "test");
+
+        assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), ["first"]);
+        const related = diagnostics[0].relatedInformation!;
+        assert.deepStrictEqual(related.map(information => [information.location.uri.fsPath, information.location.range.start.line, information.message]), [
+            ["/workspace/test.lcb", 1, "declared here"],
+            ["/workspace/other.lcb", 6, "also here"],
+        ]);
+    });
+
+    test("shows diagnostics of another file on the first line", () => {
+        const diagnostics = lintRecordsToDiagnostics([
+            { line: 5, column: 3, severity: "error", message: "broken", file: "/modules/other.lcb" },
+            { line: 3, column: 1, severity: "warning", message: "local", file: "/workspace/test.lcb" },
+        ], document, "test");
+
+        assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.message, diagnostic.range.start.line, diagnostic.range.end.character]), [
+            ["other.lcb: broken", 0, 23],
+            ["local", 2, 6],
+        ]);
+        const location = diagnostics[0].relatedInformation![0].location;
+        assert.strictEqual(location.uri.fsPath, "/modules/other.lcb");
+        assert.strictEqual(location.range.start.line, 4);
+        assert.strictEqual(location.range.start.character, 2);
+    });
+});
@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { parseScript } from "../../features/livecodescript/LCSparser";
+import { applyLintSettings, RuleSettings } from "../../features/utils/lintSettings";
+
+
+/** One diagnostic of `rule` on every line of the script, see `applyLintSettings`. */
+function remaining(lines: string[], rules: string[], settings: RuleSettings = {}): [string, number][] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    lines.forEach((_, line) => {
+        for (const rule of rules) {
+            const diagnostic = new vscode.Diagnostic(new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, 1)), rule, vscode.DiagnosticSeverity.Warning);
+            diagnostic.code = rule === "linter" ? undefined : rule;
+            diagnostics.push(diagnostic);
+        }
+    });
+    return applyLintSettings(diagnostics, parseScript(lines.join("\n")).comments, settings)
+        .map(diagnostic => [diagnostic.message, diagnostic.range.start.line]);
+}
+
+
+suite("lintSettings", () => {
+    test("changes the severity of a rule or turns it off", () => {
+        const diagnostic = (code: string | number | undefined) => {
+            const result = new vscode.Diagnostic(new vscode.Range(new vscode.Position(0, 0), new vscode.Position(0, 1)), "", vscode.DiagnosticSeverity.Warning);
+            result.code = code;
+            return result;
+        };
+        const diagnostics = applyLintSettings([diagnostic("unused-local"), diagnostic(341), diagnostic(undefined), diagnostic("unreachable-code")], [], {
+            "unused-local": "error",
+            "341": "hint",
+            "linter": "information",
+            "unreachable-code": "off",
+        });
+        assert.deepStrictEqual(diagnostics.map(result => [result.code, result.severity]), [
+            ["unused-local", vscode.DiagnosticSeverity.Error],
+            [341, vscode.DiagnosticSeverity.Hint],
+            [undefined, vscode.DiagnosticSeverity.Information],
+        ]);
+    });
+
+    test("disables the next line or the line of the comment", () => {
+        assert.deepStrictEqual(remaining([
+            "-- lint-disable-next-line a",
+            "put 1 into x",
+            "put 2 into x // lint-disable-line",
+            "put 3 into x",
+        ], ["a", "b"]), [
+            ["a", 0], ["b", 0],
+            ["b", 1],
+            ["a", 3], ["b", 3],
+        ]);
+    });
+
+    test("reads directives in block comments", () => {
+        assert.deepStrictEqual(remaining([
+            "/* lint-disable-next-line b */",
+            "put 1 into x",
+        ], ["a", "b"]), [["a", 0], ["b", 0], ["a", 1]]);
+    });
+
+    test("disables rules up to the matching enable", () => {
+        assert.deepStrictEqual(remaining([
+            "# lint-disable a, b",
+            "put 1 into x",
+            "-- lint-enable a",
+            "put 2 into x",
+            "-- lint-enable",
+            "put 3 into x",
+        ], ["a", "b"]), [
+            ["a", 3],
+            ["a", 4],
+            ["a", 5], ["b", 5],
+        ]);
+    });
+
+    test("only ends a disable of every rule at a plain enable", () => {
+        assert.deepStrictEqual(remaining([
+            "-- lint-disable",
+            "-- lint-enable a",
+            "put 1 into x",
+            "-- LINT-ENABLE",
+            "put 2 into x",
+        ], ["a"]), [["a", 4]]);
+    });
+
+    test("disables rules in the whole file and Linter.lc diagnostics by their rule", () => {
+        assert.deepStrictEqual(remaining([
+            "put 1 into x",
+            "-- lint-disable-file linter",
+        ], ["a", "linter"]), [["a", 0], ["a", 1]]);
+    });
+
+    test("ignores directives that are not whole comments", () => {
+        assert.deepStrictEqual(remaining([
+            "-- see lint-disable-line",
+            "put \"-- lint-disable-line\" into x",
+        ], ["a"]), [["a", 0], ["a", 1]]);
+    });
+});
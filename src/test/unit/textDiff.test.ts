@@ -0,0 +1,86 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { minimalEdits } from "../../features/utils/textDiff";
+
+
+/** The range of the whole of `text`, starting at `line`. */
+function rangeOf(text: string, line = 0): vscode.Range {
+    const lines = text.split("\n");
+    return new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line + lines.length - 1, lines[lines.length - 1].length));
+}
+
+/** Applies edits that do not overlap to `text`, whose range starts at `line`. */
+function applyEdits(text: string, edits: vscode.TextEdit[], line = 0): string {
+    const lines = text.split("\n");
+    const offset = (position: vscode.Position) => lines.slice(0, position.line - line).reduce((sum, current) => sum + current.length + 1, 0) + position.character;
+    return [...edits]
+        .sort((a, b) => offset(b.range.start) - offset(a.range.start))
+        .reduce((result, edit) => result.slice(0, offset(edit.range.start)) + edit.newText + result.slice(offset(edit.range.end)), text);
+}
+
+/** Edits as `[startLine, endLine, newText]`. */
+function summary(edits: vscode.TextEdit[]): [number, number, string][] {
+    return edits.map(edit => [edit.range.start.line, edit.range.end.line, edit.newText]);
+}
+
+
+suite("textDiff", () => {
+    test("returns no edit for the same text", () => {
+        const text = "on test\n   beep\nend test\n";
+        assert.deepStrictEqual(minimalEdits(rangeOf(text), text, text), []);
+    });
+
+    test("replaces each run of changed lines on its own", () => {
+        const original = "on test\nbeep\nbeep\n   beep\nbeep\nend test\n";
+        const modified = "on test\n   beep\n   beep\n   beep\n   beep\nend test\n";
+        const edits = minimalEdits(rangeOf(original), original, modified);
+        assert.deepStrictEqual(summary(edits), [[1, 3, "   beep\n   beep\n"], [4, 5, "   beep\n"]]);
+        assert.strictEqual(applyEdits(original, edits), modified);
+    });
+
+    test("inserts and deletes lines without touching the others", () => {
+        const original = "a\nb\nc\nd\n";
+        const modified = "a\nc\nx\ny\nd\n";
+        const edits = minimalEdits(rangeOf(original), original, modified);
+        assert.deepStrictEqual(summary(edits), [[1, 2, ""], [3, 3, "x\ny\n"]]);
+        assert.strictEqual(applyEdits(original, edits), modified);
+    });
+
+    test("ignores line endings that only differ by CR", () => {
+        assert.deepStrictEqual(minimalEdits(rangeOf("a\r\nb\r\n"), "a\r\nb\r\n", "a\nb\n"), []);
+    });
+
+    test("handles a last line without a line break", () => {
+        const original = "a\nb";
+        const modified = "a\nb\n";
+        const edits = minimalEdits(rangeOf(original), original, modified);
+        assert.deepStrictEqual(summary(edits), [[1, 1, "b\n"]]);
+        assert.strictEqual(edits[0].range.end.character, 1);
+        assert.strictEqual(applyEdits(original, edits), modified);
+    });
+
+    test("positions the edits relative to the start of the range", () => {
+        const original = "if true then\nbeep\nend if";
+        const modified = "if true then\n   beep\nend if";
+        const edits = minimalEdits(rangeOf(original, 10), original, modified);
+        assert.deepStrictEqual(summary(edits), [[11, 12, "   beep\n"]]);
+        assert.strictEqual(applyEdits(original, edits, 10), modified);
+    });
+
+    test("turns any text into any other text", () => {
+        // A small linear congruential generator keeps the cases the same from run to run
+        let seed = 42;
+        const random = (max: number) => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed % max;
+        };
+        const randomText = () => Array.from({ length: random(12) }, () => "abc"[random(3)] + "\n").join("") + (random(2) ? "z" : "");
+
+        for (let run = 0; run < 500; run++) {
+            const original = randomText();
+            const modified = randomText();
+            const edits = minimalEdits(rangeOf(original), original, modified);
+            assert.strictEqual(applyEdits(original, edits), modified, JSON.stringify({ original, modified }));
+        }
+    });
+});
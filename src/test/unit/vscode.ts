@@ -0,0 +1,148 @@
+import * as Module from "module";
+
+
+/*
+ * The part of the `vscode` API used by the modules under test, so that they
+ * can be tested with mocha outside of the editor. Loaded with `--require`,
+ * it answers every `require("vscode")`.
+ */
+
+
+export class Position {
+    constructor(public readonly line: number, public readonly character: number) {
+    }
+
+    public translate(lineDelta = 0, characterDelta = 0): Position {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+
+    public compareTo(other: Position): number {
+        return this.line === other.line ? this.character - other.character : this.line - other.line;
+    }
+
+    public isEqual(other: Position): boolean {
+        return this.compareTo(other) === 0;
+    }
+
+    public isBefore(other: Position): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    public isAfter(other: Position): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    public isBeforeOrEqual(other: Position): boolean {
+        return this.compareTo(other) <= 0;
+    }
+
+    public isAfterOrEqual(other: Position): boolean {
+        return this.compareTo(other) >= 0;
+    }
+}
+
+export class Range {
+    public readonly start: Position;
+    public readonly end: Position;
+
+    constructor(start: Position, end: Position);
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number);
+    constructor(...args: any[]) {
+        const [start, end]: Position[] = args.length === 4 ? [new Position(args[0], args[1]), new Position(args[2], args[3])] : args;
+        [this.start, this.end] = start.isAfter(end) ? [end, start] : [start, end];
+    }
+
+    public get isEmpty(): boolean {
+        return this.start.isEqual(this.end);
+    }
+
+    public get isSingleLine(): boolean {
+        return this.start.line === this.end.line;
+    }
+
+    public isEqual(other: Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+
+    public contains(value: Position | Range): boolean {
+        return value instanceof Range
+            ? this.contains(value.start) && this.contains(value.end)
+            : value.isAfterOrEqual(this.start) && value.isBeforeOrEqual(this.end);
+    }
+}
+
+export class TextEdit {
+    constructor(public range: Range, public newText: string) {
+    }
+
+    public static replace(range: Range, newText: string): TextEdit {
+        return new TextEdit(range, newText);
+    }
+
+    public static insert(position: Position, newText: string): TextEdit {
+        return new TextEdit(new Range(position, position), newText);
+    }
+}
+
+export enum DiagnosticSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3,
+}
+
+export enum DiagnosticTag {
+    Unnecessary = 1,
+    Deprecated = 2,
+}
+
+export enum EndOfLine {
+    LF = 1,
+    CRLF = 2,
+}
+
+export class Uri {
+    private constructor(public readonly scheme: string, public readonly fsPath: string) {
+    }
+
+    public static file(fsPath: string): Uri {
+        return new Uri("file", fsPath);
+    }
+
+    public get path(): string {
+        return this.fsPath.replace(/\\/g, "/");
+    }
+
+    public toString(): string {
+        return `${this.scheme}://${this.path}`;
+    }
+}
+
+export class Location {
+    public range: Range;
+
+    constructor(public uri: Uri, range: Range | Position) {
+        this.range = range instanceof Position ? new Range(range, range) : range;
+    }
+}
+
+export class DiagnosticRelatedInformation {
+    constructor(public location: Location, public message: string) {
+    }
+}
+
+export class Diagnostic {
+    public code?: string | number;
+    public source?: string;
+    public tags?: DiagnosticTag[];
+    public relatedInformation?: DiagnosticRelatedInformation[];
+
+    constructor(public range: Range, public message: string, public severity = DiagnosticSeverity.Error) {
+    }
+}
+
+
+const load = (Module as any)._load;
+(Module as any)._load = function (request: string, ...rest: any[]) {
+    return request === "vscode" ? exports : load.call(this, request, ...rest);
+};